@@ -63,6 +63,14 @@ export default [
     },
   },
 
+  // Benchmarks: Jest globals plus Node (timers, env)
+  {
+    files: ['**/*.bench.ts'],
+    languageOptions: {
+      globals: { ...globals.jest, ...globals.node },
+    },
+  },
+
   // keep Prettier last
   prettier,
 ];
@@ -0,0 +1,10 @@
+// jest.bench.config.cjs
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  // benchmarks are slow and timing based, so they only run through `npm run bench`
+  testMatch: ['**/?(*.)+(bench).ts'],
+  testTimeout: 300000,
+};
@@ -0,0 +1,163 @@
+// main.bench.ts — run with `npm run bench` (not part of `npm test`)
+import { HydraModeler, type HydrationSchemaNode } from './main';
+
+type Models = {
+  Customer: { code: string; name: string };
+  Product: { code: string; name: string; CustomerCode: string };
+  Edition: { code: string; name: string; ProductCode: string };
+  Tag: { code: string; label: string };
+  ProductTag: { ProductCode: string; TagCode: string };
+};
+
+// rows of the largest run; the smaller runs are 1/4 and 1/16 of it
+const ROWS = Number(process.env.BENCH_ROWS ?? 80_000);
+// allowed growth of the per-row time between the smallest and the largest run
+const MAX_PER_ROW_GROWTH = Number(process.env.BENCH_MAX_GROWTH ?? 2.5);
+
+const modeler = new HydraModeler<Models>()
+  .addModels((mb) =>
+    mb
+      .add('Customer', { code: {}, name: {} })
+      .add('Product', { code: {}, name: {}, CustomerCode: {} })
+      .add('Edition', { code: {}, name: {}, ProductCode: {} })
+      .add('Tag', { code: {}, label: {} })
+      .add('ProductTag', { ProductCode: {}, TagCode: {} }, ['ProductCode', 'TagCode']),
+  )
+  .associate('Customer', (ab) => ab.hasMany('Product', 'Products'))
+  .associate('Product', (ab) =>
+    ab.hasMany('Edition', 'Editions').belongsToMany('Tag', 'ProductTag', { as: 'Tags' }),
+  );
+
+const schema: HydrationSchemaNode<Models> = {
+  model: 'Customer',
+  children: [
+    {
+      model: 'Product',
+      alias: 'Products',
+      children: [
+        { model: 'Edition', alias: 'Editions' },
+        { model: 'Tag', alias: 'Tags' },
+      ],
+    },
+  ],
+};
+
+const joinRow = (c: number, p: number, e: number, t: number): Record<string, any> => ({
+  'Customer.code': `C${c}`,
+  'Customer.name': `Customer ${c}`,
+  'Products.code': `C${c}P${p}`,
+  'Products.name': `Product ${p}`,
+  'Products.CustomerCode': `C${c}`,
+  'Editions.code': `C${c}P${p}E${e}`,
+  'Editions.name': `Edition ${e}`,
+  'Editions.ProductCode': `C${c}P${p}`,
+  'ProductTag.ProductCode': `C${c}P${p}`,
+  'ProductTag.TagCode': `T${t}`,
+  'Tags.code': `T${t}`,
+  'Tags.label': `Tag ${t}`,
+});
+
+/** Customer × 5 products × 4 editions × 2 tags, i.e. 40 joined rows per customer. */
+const joinRows = (rows: number): Record<string, any>[] => {
+  const flat: Record<string, any>[] = [];
+  for (let c = 0; flat.length < rows; c++) {
+    for (let p = 0; p < 5; p++) {
+      for (let e = 0; e < 4; e++) {
+        for (let t = 0; t < 2; t++) flat.push(joinRow(c, p, e, t));
+      }
+    }
+  }
+  return flat;
+};
+
+/**
+ * One customer × 2 products × 2 editions × `rows / 4` tags: the root group, each product group
+ * and each product's tags grow with the input, so per-group work that is quadratic shows up.
+ */
+const fanOutRows = (rows: number): Record<string, any>[] => {
+  const tags = Math.max(1, Math.floor(rows / 4));
+  const flat: Record<string, any>[] = [];
+  for (let p = 0; p < 2; p++) {
+    for (let e = 0; e < 2; e++) {
+      for (let t = 0; t < tags; t++) flat.push(joinRow(0, p, e, t));
+    }
+  }
+  return flat;
+};
+
+/** Median wall time in ms over a few runs (after one warm-up). */
+const measure = (run: () => unknown, repeat = 5): number => {
+  run();
+  const times: number[] = [];
+  for (let i = 0; i < repeat; i++) {
+    const start = process.hrtime.bigint();
+    run();
+    times.push(Number(process.hrtime.bigint() - start) / 1e6);
+  }
+  return times.sort((a, b) => a - b)[Math.floor(repeat / 2)]!;
+};
+
+const report = (label: string, sizes: number[], times: number[]): void => {
+  const lines = sizes.map(
+    (size, i) =>
+      `${String(size).padStart(8)} rows  ${times[i]!.toFixed(1).padStart(9)} ms  ` +
+      `${((times[i]! * 1000) / size).toFixed(2).padStart(7)} µs/row`,
+  );
+  console.log(`${label}\n${lines.join('\n')}`);
+};
+
+const perRowGrowth = (sizes: number[], times: number[]): number =>
+  times[times.length - 1]! / sizes[sizes.length - 1]! / (times[0]! / sizes[0]!);
+
+describe('hydration scaling', () => {
+  const sizes = [ROWS / 16, ROWS / 4, ROWS].map(Math.floor);
+  const inputs = sizes.map(joinRows);
+
+  it('hydrate keeps the semantics of the unit tests', () => {
+    const [customer] = modeler.hydrate(joinRows(40), schema) as any[];
+    expect(customer.Products).toHaveLength(5);
+    expect(customer.Products[0].Editions).toHaveLength(4);
+    expect(customer.Products[0].Tags).toEqual([
+      { code: 'T0', label: 'Tag 0' },
+      { code: 'T1', label: 'Tag 1' },
+    ]);
+  });
+
+  it('hydrate scales linearly with the number of rows', () => {
+    const times = inputs.map((rows) => measure(() => modeler.hydrate(rows, schema)));
+    report('hydrate', sizes, times);
+    expect(perRowGrowth(sizes, times)).toBeLessThan(MAX_PER_ROW_GROWTH);
+  });
+
+  it('hydrate scales linearly when one root fans out', () => {
+    const fanOut = sizes.map(fanOutRows);
+    const [customer] = modeler.hydrate(fanOut[0]!, schema) as any[];
+    expect(customer.Products).toHaveLength(2);
+    expect(customer.Products[0].Tags).toHaveLength(Math.floor(sizes[0]! / 4));
+
+    const times = fanOut.map((rows) => measure(() => modeler.hydrate(rows, schema)));
+    report('hydrate (single root)', sizes, times);
+    expect(perRowGrowth(sizes, times)).toBeLessThan(MAX_PER_ROW_GROWTH);
+  });
+
+  it('hydrateStream scales linearly with the number of rows', async () => {
+    const drain = async (rows: Record<string, any>[]) => {
+      let count = 0;
+      for await (const _ of modeler.hydrateStream(rows, schema)) count++;
+      return count;
+    };
+    const times: number[] = [];
+    for (const rows of inputs) {
+      await drain(rows);
+      const runs: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        const start = process.hrtime.bigint();
+        await drain(rows);
+        runs.push(Number(process.hrtime.bigint() - start) / 1e6);
+      }
+      times.push(runs.sort((a, b) => a - b)[1]!);
+    }
+    report('hydrateStream', sizes, times);
+    expect(perRowGrowth(sizes, times)).toBeLessThan(MAX_PER_ROW_GROWTH);
+  });
+});
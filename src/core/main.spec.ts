@@ -1,17 +1,35 @@
 // hydra-modeler.spec.ts
+import { relations } from 'drizzle-orm';
+import { integer, pgTable, primaryKey, text } from 'drizzle-orm/pg-core';
+
 import {
   HydraModeler,
   type HydrationSchemaNode,
+  type HydraModelerOptions,
   // error classes:
   SchemaModelNotFoundError,
   NodeModelNotFoundError,
   AssociationNotDeclaredError,
   BelongsToManyThroughModelMissingError,
   SchemaAliasMissingError,
+  JsonColumnMissingError,
   HasManyMissingAliasError,
   type IHydrationModelWithAssociations,
   AllFlatRowsMustHaveSamePropertiesError,
   PrefixedPrimaryKeyNotFoundInFlatRowsError,
+  AssociationKeyArityMismatchError,
+  AssociationKeyMismatchError,
+  IdentifierTooLongError,
+  OverlappingRootAliasesError,
+  ConflictingValuesError,
+  ConflictHandlerMissingError,
+  OutputKeyConflictError,
+  UnorderedStreamRowsError,
+  OrderedStreamKeyMatchingError,
+  RecursiveCycleError,
+  InvalidRecursiveAssociationError,
+  MorphTargetNotDeclaredError,
+  HydraConverters,
 } from './main';
 
 describe('DataHydra', () => {
@@ -976,6 +994,2077 @@ describe('DataHydra', () => {
     });
   });
 
+  describe('inferred result types', () => {
+    const typed = new HydraModeler<Models>()
+      .addModels((mb) =>
+        mb
+          .add('Customer', { code: {}, name: {}, AddressCode: {} })
+          .add('Address', { code: {}, street: {} })
+          .add('Product', { code: {}, name: {}, CustomerCode: {} })
+          .add('Edition', { code: {}, name: {}, ProductCode: {} }),
+      )
+      .associate('Customer', (ab) => ab.hasMany('Product', 'Products').belongsTo('Address'))
+      .associate('Product', (ab) => ab.hasMany('Edition', 'Editions'));
+
+    const flat = [
+      {
+        'Customer.code': 'C1',
+        'Customer.name': 'Customer A',
+        'Customer.AddressCode': 'A1',
+        'Address.code': 'A1',
+        'Address.street': 'Street 1',
+        'Products.code': 'P1',
+        'Products.name': 'Product One',
+        'Products.CustomerCode': 'C1',
+        'Editions.code': 'E1',
+        'Editions.name': 'Standard',
+        'Editions.ProductCode': 'P1',
+      },
+    ];
+
+    it('derives attributes and association cardinality from an inline schema', () => {
+      const [customer] = typed.hydrate(flat, {
+        model: 'Customer',
+        children: [
+          { model: 'Address' },
+          {
+            model: 'Product',
+            alias: 'Products',
+            children: [{ model: 'Edition', alias: 'Editions' }],
+          },
+        ],
+      });
+
+      const street: string | undefined = customer?.Address?.street;
+      const editionCodes: string[] = customer!.Products.flatMap((p) =>
+        p.Editions.map((e: { code: string }) => e.code),
+      );
+      // @ts-expect-error attributes of other models are not part of the result
+      void customer?.street;
+
+      expect(street).toBe('Street 1');
+      expect(editionCodes).toEqual(['E1']);
+    });
+
+    it('uses the postProcess return type for a node', () => {
+      const [customer] = typed.hydrate(flat, {
+        model: 'Customer',
+        postProcess: (row) => ({ ...row, label: `${row.code}: ${row.name}` }),
+      });
+
+      const label: string = customer!.label;
+      expect(label).toBe('C1: Customer A');
+    });
+
+    it('keeps explicit return type parameters working', () => {
+      const [customer] = typed.hydrate<{ code: string }>(flat, { model: 'Customer' });
+      expect(customer?.code).toBe('C1');
+    });
+  });
+
+  describe('hydrateStream', () => {
+    const row = (customer: string, product: string) => ({
+      'Customer.code': customer,
+      'Customer.name': `Customer ${customer}`,
+      'Products.code': product,
+      'Products.name': `Product ${product}`,
+      'Products.CustomerCode': customer,
+    });
+
+    async function* source(rows: Record<string, any>[], pulled: string[] = []) {
+      for (const r of rows) {
+        pulled.push(`${r['Customer.code']}/${r['Products.code']}`);
+        yield r;
+      }
+    }
+
+    const collect = async <T>(it: AsyncIterable<T>): Promise<T[]> => {
+      const out: T[] = [];
+      for await (const item of it) out.push(item);
+      return out;
+    };
+
+    const schema: HydrationSchemaNode<Models> = {
+      model: 'Customer',
+      children: [{ model: 'Product', alias: 'Products' }],
+    };
+
+    it('yields each root as soon as the root primary key changes', async () => {
+      const pulled: string[] = [];
+      const stream = builder.hydrateStream(
+        source([row('C1', 'P1'), row('C1', 'P2'), row('C2', 'P3')], pulled),
+        schema,
+      );
+
+      const first = await stream.next();
+      expect(first.value).toEqual({
+        code: 'C1',
+        name: 'Customer C1',
+        Products: [
+          { code: 'P1', name: 'Product P1', CustomerCode: 'C1' },
+          { code: 'P2', name: 'Product P2', CustomerCode: 'C1' },
+        ],
+      });
+      // C1 is complete once the first C2 row was read; nothing beyond that was pulled
+      expect(pulled).toEqual(['C1/P1', 'C1/P2', 'C2/P3']);
+
+      expect(await collect(stream)).toEqual([
+        {
+          code: 'C2',
+          name: 'Customer C2',
+          Products: [{ code: 'P3', name: 'Product P3', CustomerCode: 'C2' }],
+        },
+      ]);
+    });
+
+    it('produces the same result as hydrate for unordered input with { ordered: false }', async () => {
+      const rows = [row('C1', 'P1'), row('C2', 'P3'), row('C1', 'P2')];
+      await expect(
+        collect(builder.hydrateStream(source(rows), schema, { ordered: false })),
+      ).resolves.toEqual(builder.hydrate(rows, schema));
+    });
+
+    it('throws UnorderedStreamRowsError when a root reappears in ordered mode', async () => {
+      const rows = [row('C1', 'P1'), row('C2', 'P3'), row('C1', 'P2')];
+      await expect(collect(builder.hydrateStream(source(rows), schema))).rejects.toThrow(
+        UnorderedStreamRowsError,
+      );
+      // descending keys are ordered too; only the previous key is compared
+      const descending = [row('C3', 'P4'), row('C2', 'P3'), row('C1', 'P1')];
+      const codes = (await collect(builder.hydrateStream(source(descending), schema))).map(
+        (customer) => customer.code,
+      );
+      expect(codes).toEqual(['C3', 'C2', 'C1']);
+    });
+
+    it('applies alias checks to the first streamed row', async () => {
+      const rows = [{ 'Customer.code': 'C1', 'Customer.name': 'Customer A' }];
+      await expect(collect(builder.hydrateStream(source(rows), schema))).rejects.toThrow(
+        SchemaAliasMissingError,
+      );
+    });
+  });
+
+  describe('flatten', () => {
+    it('emits one row per LEFT JOIN combination and round-trips through hydrate', () => {
+      const customers = [
+        {
+          code: 'C1',
+          name: 'Customer A',
+          AddressCode: 'A1',
+          Address: { code: 'A1', street: 'Street 1' },
+          Products: [
+            {
+              code: 'P1',
+              name: 'Product One',
+              CustomerCode: 'C1',
+              Editions: [
+                { code: 'E1', name: 'Standard', ProductCode: 'P1' },
+                { code: 'E2', name: 'Pro', ProductCode: 'P1' },
+              ],
+            },
+          ],
+        },
+        {
+          code: 'C2',
+          name: 'Customer B',
+          AddressCode: 'A2',
+          Address: { code: 'A2', street: 'Street 2' },
+          Products: [],
+        },
+      ];
+      const schema: HydrationSchemaNode<Models> = {
+        model: 'Customer',
+        children: [
+          { model: 'Address' },
+          {
+            model: 'Product',
+            alias: 'Products',
+            children: [{ model: 'Edition', alias: 'Editions' }],
+          },
+        ],
+      };
+
+      const flat = builder.flatten(customers, schema);
+
+      expect(flat).toHaveLength(3);
+      expect(flat[2]).toEqual({
+        'Customer.code': 'C2',
+        'Customer.name': 'Customer B',
+        'Customer.AddressCode': 'A2',
+        'Address.code': 'A2',
+        'Address.street': 'Street 2',
+        'Products.code': null,
+        'Products.name': null,
+        'Products.CustomerCode': null,
+        'Editions.code': null,
+        'Editions.name': null,
+        'Editions.ProductCode': null,
+      });
+      expect(builder.hydrate(flat, schema)).toEqual(customers);
+    });
+
+    it('fills foreign keys from the declared associations', () => {
+      builder
+        .addModels((mb) =>
+          mb.add('CustomerProduct', { CustomerCode: {}, ProductCode: {}, meta: {} }),
+        )
+        .associate('Customer', (ab) =>
+          ab.belongsToMany('Product', 'CustomerProduct', {
+            as: 'Bought',
+            through: { as: 'CustomerProducts' },
+          }),
+        );
+
+      const flat = builder.flatten(
+        [
+          {
+            code: 'C1',
+            name: 'Customer A',
+            Address: { code: 'A1', street: 'Street 1' },
+            Products: [{ code: 'P1', name: 'Product One' }],
+            Bought: [{ code: 'P2', name: 'Product Two' }],
+          },
+        ],
+        {
+          model: 'Customer',
+          children: [
+            { model: 'Address' },
+            { model: 'Product', alias: 'Products' },
+            { model: 'Product', alias: 'Bought' },
+          ],
+        },
+      );
+
+      expect(flat).toEqual([
+        {
+          'Customer.code': 'C1',
+          'Customer.name': 'Customer A',
+          'Customer.AddressCode': 'A1',
+          'Address.code': 'A1',
+          'Address.street': 'Street 1',
+          'Products.code': 'P1',
+          'Products.name': 'Product One',
+          'Products.CustomerCode': 'C1',
+          'CustomerProducts.CustomerCode': 'C1',
+          'CustomerProducts.ProductCode': 'P2',
+          'CustomerProducts.meta': null,
+          'CustomerProducts.code': null,
+          'Bought.code': 'P2',
+          'Bought.name': 'Product Two',
+          'Bought.CustomerCode': null,
+        },
+      ]);
+    });
+
+    it('throws AssociationNotDeclaredError for undeclared children', () => {
+      expect(() =>
+        builder.flatten([{ code: 'C1' }], {
+          model: 'Customer',
+          children: [{ model: 'Product', alias: 'Unknown' }],
+        }),
+      ).toThrow(AssociationNotDeclaredError);
+    });
+  });
+
+  describe('recursive self-associations', () => {
+    interface Catalog {
+      Category: { code: string; name: string; parentCode: string | null };
+    }
+    const catalog = new HydraModeler<Catalog>()
+      .addModels((m) => m.add('Category', { code: {}, name: {}, parentCode: {} }))
+      .associate('Category', (ab) =>
+        ab
+          .hasMany('Category', 'Subcategories', { foreignKey: 'parentCode' })
+          .belongsTo('Category', { as: 'Parent', foreignKey: 'parentCode' }),
+      );
+
+    const category = (code: string, parentCode: string | null) => ({
+      'Category.code': code,
+      'Category.name': `Category ${code}`,
+      'Category.parentCode': parentCode,
+    });
+    // rows as returned by a recursive CTE, in no particular order
+    const flat = [
+      category('A.1.a', 'A.1'),
+      category('A', null),
+      category('A.1', 'A'),
+      category('B', null),
+      category('A.2', 'A'),
+    ];
+
+    it('builds an arbitrary-depth tree through a HasMany self-association', () => {
+      const tree = catalog.hydrate(flat, {
+        model: 'Category',
+        recursive: { via: 'Subcategories' },
+      });
+
+      expect(tree).toEqual([
+        {
+          code: 'A',
+          name: 'Category A',
+          parentCode: null,
+          Subcategories: [
+            {
+              code: 'A.1',
+              name: 'Category A.1',
+              parentCode: 'A',
+              Subcategories: [
+                { code: 'A.1.a', name: 'Category A.1.a', parentCode: 'A.1', Subcategories: [] },
+              ],
+            },
+            { code: 'A.2', name: 'Category A.2', parentCode: 'A', Subcategories: [] },
+          ],
+        },
+        { code: 'B', name: 'Category B', parentCode: null, Subcategories: [] },
+      ]);
+      expect(tree[0]?.Subcategories?.[0]?.Subcategories?.[0]?.code).toBe('A.1.a');
+    });
+
+    it('stops after maxDepth levels', () => {
+      const [a] = catalog.hydrate(flat, {
+        model: 'Category',
+        recursive: { via: 'Subcategories', maxDepth: 2 },
+      });
+      expect(a?.Subcategories?.map((c) => c.code)).toEqual(['A.1', 'A.2']);
+      expect(a?.Subcategories?.[0]).not.toHaveProperty('Subcategories');
+      // the key the last level leaves out is optional in the JSON Schema
+      const required = (maxDepth?: number) =>
+        catalog.toJsonSchema({
+          model: 'Category',
+          recursive: maxDepth ? { via: 'Subcategories', maxDepth } : { via: 'Subcategories' },
+        }).$defs.Category?.required;
+      expect(required(2)).not.toContain('Subcategories');
+      expect(required()).toContain('Subcategories');
+    });
+
+    it('builds ancestor chains through a BelongsTo self-association', () => {
+      const chain = catalog.hydrate(
+        [category('A.1.a', 'A.1'), category('A.1', 'A'), category('A', null)],
+        {
+          model: 'Category',
+          recursive: { via: 'Parent' },
+        },
+      );
+      expect(chain).toEqual([
+        {
+          code: 'A.1.a',
+          name: 'Category A.1.a',
+          parentCode: 'A.1',
+          Parent: {
+            code: 'A.1',
+            name: 'Category A.1',
+            parentCode: 'A',
+            Parent: { code: 'A', name: 'Category A', parentCode: null },
+          },
+        },
+      ]);
+    });
+
+    it('flattens trees back into one row per entity', () => {
+      const schema = { model: 'Category' as const, recursive: { via: 'Subcategories' as const } };
+      const tree = catalog.hydrate(flat, schema);
+      const rows = catalog.flatten(tree, schema);
+
+      expect(rows).toHaveLength(flat.length);
+      expect(rows).toEqual(expect.arrayContaining(flat));
+      expect(catalog.hydrate(rows, schema)).toEqual(tree);
+
+      const chainSchema = { model: 'Category' as const, recursive: { via: 'Parent' as const } };
+      const chain = [category('A.1.a', 'A.1'), category('A.1', 'A'), category('A', null)];
+      expect(catalog.flatten(catalog.hydrate(chain, chainSchema), chainSchema)).toEqual(chain);
+    });
+
+    it('throws RecursiveCycleError on cyclic rows', () => {
+      const cyclic = [
+        category('A', 'C'),
+        category('B', 'A'),
+        category('C', 'B'),
+        category('D', null),
+      ];
+      expect(() =>
+        catalog.hydrate(cyclic, { model: 'Category', recursive: { via: 'Subcategories' } }),
+      ).toThrow(RecursiveCycleError);
+    });
+
+    it('throws InvalidRecursiveAssociationError for associations to other models', () => {
+      expect(() =>
+        builder.hydrate(
+          [{ 'Customer.code': 'C1', 'Customer.name': 'A', 'Customer.AddressCode': 'A1' }],
+          { model: 'Customer', recursive: { via: 'Address' } },
+        ),
+      ).toThrow(InvalidRecursiveAssociationError);
+    });
+  });
+
+  describe('polymorphic associations', () => {
+    interface Media {
+      Post: { code: string; title: string };
+      Video: { code: string; url: string };
+      Comment: { code: string; body: string; commentableType: string; commentableId: string };
+    }
+    const media = new HydraModeler<Media>()
+      .addModels((m) =>
+        m
+          .add('Post', { code: {}, title: {} })
+          .add('Video', { code: {}, url: {} })
+          .add('Comment', { code: {}, body: {}, commentableType: {}, commentableId: {} }),
+      )
+      .associate('Comment', (ab) =>
+        ab.morphTo('commentable', {
+          typeKey: 'commentableType',
+          idKey: 'commentableId',
+          targets: { post: 'Post', video: { model: 'Video', alias: 'Clip' } },
+        }),
+      )
+      .associate('Post', (ab) =>
+        ab.morphMany('Comment', 'Comments', {
+          typeKey: 'commentableType',
+          idKey: 'commentableId',
+          typeValue: 'post',
+        }),
+      );
+
+    const comment = (code: string, type: string | null, id: string | null) => ({
+      'Comment.code': code,
+      'Comment.body': `Body ${code}`,
+      'Comment.commentableType': type,
+      'Comment.commentableId': id,
+      'Post.code': type === 'post' ? id : null,
+      'Post.title': type === 'post' ? `Title ${id}` : null,
+      'Clip.code': type === 'video' ? id : null,
+      'Clip.url': type === 'video' ? `https://example.com/${id}` : null,
+    });
+
+    it('joins every morphTo target and filters morphMany by the discriminator', () => {
+      expect(media.joins({ model: 'Comment', children: [{ morph: 'commentable' }] })).toEqual([
+        `LEFT JOIN "Post" ON "Post"."code" = "Comment"."commentableId" AND "Comment"."commentableType" = 'post'`,
+        `LEFT JOIN "Video" AS "Clip" ON "Clip"."code" = "Comment"."commentableId" AND "Comment"."commentableType" = 'video'`,
+      ]);
+      expect(
+        media.joins({ model: 'Post', children: [{ model: 'Comment', alias: 'Comments' }] }),
+      ).toEqual([
+        `LEFT JOIN "Comment" AS "Comments" ON "Comments"."commentableId" = "Post"."code" AND "Comments"."commentableType" = 'post'`,
+      ]);
+    });
+
+    it('picks the morphTo target per row from the discriminator column', () => {
+      const comments = media.hydrate(
+        [comment('K1', 'post', 'P1'), comment('K2', 'video', 'V1'), comment('K3', null, null)],
+        { model: 'Comment', children: [{ morph: 'commentable' }] },
+      );
+
+      expect(comments).toEqual([
+        {
+          code: 'K1',
+          body: 'Body K1',
+          commentableType: 'post',
+          commentableId: 'P1',
+          commentable: { code: 'P1', title: 'Title P1' },
+        },
+        {
+          code: 'K2',
+          body: 'Body K2',
+          commentableType: 'video',
+          commentableId: 'V1',
+          commentable: { code: 'V1', url: 'https://example.com/V1' },
+        },
+        { code: 'K3', body: 'Body K3', commentableType: null, commentableId: null },
+      ]);
+    });
+
+    it('traces each morphTo branch with the target it resolved to', () => {
+      const { trace } = media.explain([comment('K1', 'post', 'P1'), comment('K2', 'video', 'V1')], {
+        model: 'Comment',
+        children: [{ morph: 'commentable' }],
+      });
+
+      expect(trace['Comment.Post']?.association?.target).toBe('Post');
+      expect(trace['Comment.Clip']?.association).toEqual({
+        type: 'MorphTo',
+        source: 'Comment',
+        as: 'commentable',
+        target: 'Video',
+      });
+    });
+
+    it('applies per-target schema nodes from `targets`', () => {
+      const [first] = media.hydrate([comment('K1', 'post', 'P1')], {
+        model: 'Comment',
+        children: [
+          {
+            morph: 'commentable',
+            targets: {
+              post: { model: 'Post', postProcess: (post) => ({ ...post, kind: 'post' }) },
+            },
+          },
+        ],
+      });
+      expect(first?.commentable).toEqual({ code: 'P1', title: 'Title P1', kind: 'post' });
+    });
+
+    it('validates morph targets as children of their source node', () => {
+      const problems = media.validateSchema({
+        model: 'Comment',
+        // @ts-expect-error unregistered target model
+        children: [{ morph: 'commentable', targets: { video: { model: 'Movie' } } }],
+      });
+      expect(problems.map(({ path, error }) => [path, error.constructor])).toEqual([
+        ['Comment.commentable.Movie', NodeModelNotFoundError],
+      ]);
+    });
+
+    it('keeps only children with the matching discriminator for morphMany', () => {
+      const flat = [
+        {
+          'Post.code': 'P1',
+          'Post.title': 'Title P1',
+          'Comments.code': 'K1',
+          'Comments.body': 'On post P1',
+          'Comments.commentableType': 'post',
+          'Comments.commentableId': 'P1',
+        },
+        {
+          'Post.code': 'P1',
+          'Post.title': 'Title P1',
+          'Comments.code': 'K2',
+          'Comments.body': 'On video P1',
+          'Comments.commentableType': 'video',
+          'Comments.commentableId': 'P1',
+        },
+      ];
+
+      expect(
+        media.hydrate(flat, { model: 'Post', children: [{ model: 'Comment', alias: 'Comments' }] }),
+      ).toEqual([
+        {
+          code: 'P1',
+          title: 'Title P1',
+          Comments: [
+            { code: 'K1', body: 'On post P1', commentableType: 'post', commentableId: 'P1' },
+          ],
+        },
+      ]);
+    });
+
+    it('round-trips morphTo children through flatten', () => {
+      const schema: HydrationSchemaNode<Media> = {
+        model: 'Comment',
+        children: [{ morph: 'commentable' }],
+      };
+      const flat = [comment('K1', 'post', 'P1'), comment('K2', 'video', 'V1')];
+      expect(media.flatten(media.hydrate(flat, schema), schema)).toEqual(flat);
+    });
+
+    it('throws MorphTargetNotDeclaredError for unknown discriminator values', () => {
+      expect(() =>
+        media.hydrate([comment('K1', 'photo', 'F1')], {
+          model: 'Comment',
+          children: [{ morph: 'commentable' }],
+        }),
+      ).toThrow(MorphTargetNotDeclaredError);
+    });
+  });
+
+  describe('attribute converters', () => {
+    interface Shop {
+      Order: {
+        code: string;
+        createdAt: Date;
+        total: number;
+        paid: boolean;
+        sequence: bigint;
+        meta: { tags: string[] } | null;
+        status: 'open' | 'closed';
+      };
+    }
+    const shop = new HydraModeler<Shop>().addModels((m) =>
+      m.add('Order', {
+        code: {},
+        createdAt: HydraConverters.date,
+        total: HydraConverters.decimal,
+        paid: HydraConverters.boolean,
+        sequence: HydraConverters.bigint,
+        meta: HydraConverters.json,
+        status: {
+          from: (raw: string) => (raw === 'O' ? 'open' : 'closed'),
+          to: (value: string) => (value === 'open' ? 'O' : 'C'),
+        },
+      }),
+    );
+    const raw = {
+      'Order.code': 'O1',
+      'Order.createdAt': '2024-05-01T10:00:00.000Z',
+      'Order.total': '12.50',
+      'Order.paid': 1,
+      'Order.sequence': '9007199254740993',
+      'Order.meta': '{"tags":["gift"]}',
+      'Order.status': 'O',
+    };
+
+    it('converts raw column values before postProcess', () => {
+      const [order] = shop.hydrate([raw], {
+        model: 'Order',
+        postProcess: (row) => ({ ...row, isDate: row.createdAt instanceof Date }),
+      });
+      expect(order).toEqual({
+        code: 'O1',
+        createdAt: new Date('2024-05-01T10:00:00.000Z'),
+        total: 12.5,
+        paid: true,
+        sequence: 9007199254740993n,
+        meta: { tags: ['gift'] },
+        status: 'open',
+        isDate: true,
+      });
+    });
+
+    it('passes SQL NULL through without calling converters', () => {
+      const [order] = shop.hydrate([{ ...raw, 'Order.createdAt': null, 'Order.meta': null }], {
+        model: 'Order',
+      });
+      expect(order?.createdAt).toBeNull();
+      expect(order?.meta).toBeNull();
+    });
+
+    it('applies the inverse `to` converters in flatten', () => {
+      const orders = shop.hydrate([raw], { model: 'Order' });
+      expect(shop.flatten(orders, { model: 'Order' })).toEqual([
+        {
+          ...raw,
+          'Order.total': '12.5',
+          'Order.paid': 1,
+        },
+      ]);
+    });
+  });
+
+  describe('composite primary keys', () => {
+    interface Legacy {
+      Account: { tenantId: number; code: string; name: string };
+      Contact: { tenantId: number; code: string; AccountCode: string; email: string };
+      Tag: { tenantId: number; code: string; label: string };
+      AccountTag: { tenantId: number; AccountCode: string; TagCode: string };
+    }
+    const legacy = new HydraModeler<Legacy>()
+      .addModels((m) =>
+        m
+          .add('Account', { tenantId: {}, code: {}, name: {} }, ['tenantId', 'code'])
+          .add('Contact', { tenantId: {}, code: {}, AccountCode: {}, email: {} }, [
+            'tenantId',
+            'code',
+          ])
+          .add('Tag', { tenantId: {}, code: {}, label: {} }, ['tenantId', 'code'])
+          .add('AccountTag', { tenantId: {}, AccountCode: {}, TagCode: {} }, [
+            'tenantId',
+            'AccountCode',
+            'TagCode',
+          ]),
+      )
+      .associate('Account', (ab) =>
+        ab
+          .hasMany('Contact', 'Contacts', { foreignKey: ['tenantId', 'AccountCode'] })
+          .belongsToMany('Tag', 'AccountTag', {
+            as: 'Tags',
+            through: { foreignKey: ['tenantId', 'AccountCode'], otherKey: ['tenantId', 'TagCode'] },
+          }),
+      );
+
+    it('groups rows by the full key tuple', () => {
+      const flat = [
+        {
+          'Account.tenantId': 1,
+          'Account.code': 'A',
+          'Account.name': 'Tenant 1 / A',
+          'Contacts.tenantId': 1,
+          'Contacts.code': 'X',
+          'Contacts.AccountCode': 'A',
+          'Contacts.email': 'x@one',
+        },
+        {
+          'Account.tenantId': 2,
+          'Account.code': 'A',
+          'Account.name': 'Tenant 2 / A',
+          'Contacts.tenantId': 2,
+          'Contacts.code': 'X',
+          'Contacts.AccountCode': 'A',
+          'Contacts.email': 'x@two',
+        },
+        {
+          'Account.tenantId': 2,
+          'Account.code': 'A',
+          'Account.name': 'Tenant 2 / A',
+          'Contacts.tenantId': 2,
+          'Contacts.code': 'Y',
+          'Contacts.AccountCode': 'A',
+          'Contacts.email': 'y@two',
+        },
+      ];
+
+      const schema: HydrationSchemaNode<Legacy> = {
+        model: 'Account',
+        children: [{ model: 'Contact', alias: 'Contacts' }],
+      };
+
+      expect(legacy.hydrate(flat, schema)).toEqual([
+        {
+          tenantId: 1,
+          code: 'A',
+          name: 'Tenant 1 / A',
+          Contacts: [{ tenantId: 1, code: 'X', AccountCode: 'A', email: 'x@one' }],
+        },
+        {
+          tenantId: 2,
+          code: 'A',
+          name: 'Tenant 2 / A',
+          Contacts: [
+            { tenantId: 2, code: 'X', AccountCode: 'A', email: 'x@two' },
+            { tenantId: 2, code: 'Y', AccountCode: 'A', email: 'y@two' },
+          ],
+        },
+      ]);
+    });
+
+    it('matches BelongsToMany join rows on composite keys', () => {
+      const flat = [
+        {
+          'Account.tenantId': 1,
+          'Account.code': 'A',
+          'Account.name': 'Tenant 1 / A',
+          'AccountTag.tenantId': 1,
+          'AccountTag.AccountCode': 'A',
+          'AccountTag.TagCode': 'VIP',
+          'Tags.tenantId': 1,
+          'Tags.code': 'VIP',
+          'Tags.label': 'Very important',
+        },
+        {
+          'Account.tenantId': 1,
+          'Account.code': 'A',
+          'Account.name': 'Tenant 1 / A',
+          // join row of another tenant must not leak into this account
+          'AccountTag.tenantId': 2,
+          'AccountTag.AccountCode': 'A',
+          'AccountTag.TagCode': 'VIP',
+          'Tags.tenantId': 2,
+          'Tags.code': 'VIP',
+          'Tags.label': 'Other tenant',
+        },
+      ];
+
+      const schema: HydrationSchemaNode<Legacy> = {
+        model: 'Account',
+        children: [{ model: 'Tag', alias: 'Tags' }],
+      };
+
+      expect(legacy.hydrate(flat, schema)).toEqual([
+        {
+          tenantId: 1,
+          code: 'A',
+          name: 'Tenant 1 / A',
+          Tags: [{ tenantId: 1, code: 'VIP', label: 'Very important' }],
+        },
+      ]);
+    });
+
+    it('throws PrefixedPrimaryKeyNotFoundInFlatRowsError when a key column is missing', () => {
+      const flat = [{ 'Account.code': 'A', 'Account.name': 'No tenant' }];
+      expect(() => legacy.hydrate(flat, { model: 'Account' })).toThrow(
+        PrefixedPrimaryKeyNotFoundInFlatRowsError,
+      );
+    });
+
+    it('throws AssociationKeyArityMismatchError when key tuples differ in length', () => {
+      expect(() =>
+        legacy.associate('Account', (ab) =>
+          ab.hasMany('Contact', 'BrokenContacts', { foreignKey: 'AccountCode' }),
+        ),
+      ).toThrow(AssociationKeyArityMismatchError);
+    });
+  });
+
+  describe('orderBy', () => {
+    const row = (customer: string, name: string | null, product: string, edition: string) => ({
+      'Customer.code': customer,
+      'Customer.name': name,
+      'Customer.AddressCode': null,
+      'Products.code': product,
+      'Products.name': product,
+      'Products.CustomerCode': customer,
+      'Editions.code': edition,
+      'Editions.name': edition,
+      'Editions.ProductCode': product,
+    });
+    // a second collection in the join repeats products, scrambling their first-seen order
+    const flat = [
+      row('C2', 'Bravo', 'P2', 'E1'),
+      row('C2', 'Bravo', 'P1', 'E2'),
+      row('C2', 'Bravo', 'P2', 'E3'),
+      row('C1', null, 'P3', 'E4'),
+      row('C3', 'Alpha', 'P4', 'E5'),
+    ];
+
+    it('sorts roots and child collections by attribute and direction', () => {
+      const result = builder.hydrate(flat, {
+        model: 'Customer',
+        orderBy: 'name',
+        children: [
+          {
+            model: 'Product',
+            alias: 'Products',
+            orderBy: { attribute: 'code', direction: 'desc' },
+            children: [{ model: 'Edition', alias: 'Editions', orderBy: ['name'] }],
+          },
+        ],
+      });
+      expect(result.map((c) => c.code)).toEqual(['C3', 'C2', 'C1']);
+      expect(result[1]!.Products.map((p: { code: string }) => p.code)).toEqual(['P2', 'P1']);
+      expect(result[1]!.Products[0]!.Editions.map((e: { code: string }) => e.code)).toEqual([
+        'E1',
+        'E3',
+      ]);
+    });
+
+    it('places nulls per term and breaks ties with later terms', () => {
+      const result = builder.hydrate(flat, {
+        model: 'Customer',
+        orderBy: [{ attribute: 'name', nulls: 'first' }, { attribute: 'code' }],
+      });
+      expect(result.map((c) => c.code)).toEqual(['C1', 'C3', 'C2']);
+
+      const desc = builder.hydrate(flat, {
+        model: 'Customer',
+        orderBy: { attribute: 'name', direction: 'desc' },
+      });
+      expect(desc.map((c) => c.code)).toEqual(['C1', 'C2', 'C3']);
+    });
+
+    it('accepts a comparator over post-processed objects', () => {
+      const result = builder.hydrate<any, any>(flat, {
+        model: 'Customer',
+        postProcess: (c) => ({ ...c, rank: c.code === 'C2' ? 0 : 1 }),
+        orderBy: (a, b) => a.rank - b.rank,
+      });
+      expect(result.map((c: { code: string }) => c.code)).toEqual(['C2', 'C1', 'C3']);
+    });
+
+    it('buffers ordered streams to honour the root order', async () => {
+      const out: string[] = [];
+      for await (const customer of builder.hydrateStream(flat, {
+        model: 'Customer',
+        orderBy: { attribute: 'code', direction: 'desc' },
+      }))
+        out.push(customer.code);
+      expect(out).toEqual(['C3', 'C2', 'C1']);
+    });
+  });
+
+  describe('empty associations', () => {
+    const unmatched = [
+      {
+        'Customer.code': 'C1',
+        'Customer.name': 'Customer A',
+        'Customer.AddressCode': null,
+        'Address.code': null,
+        'Address.street': null,
+        'Products.code': null,
+        'Products.name': null,
+        'Products.CustomerCode': null,
+      },
+    ];
+    const schema: HydrationSchemaNode<Models> = {
+      model: 'Customer',
+      children: [{ model: 'Address' }, { model: 'Product', alias: 'Products' }],
+    };
+    const customer = { code: 'C1', name: 'Customer A', AddressCode: null };
+
+    const build = (options: HydraModelerOptions, empty?: 'empty' | 'omit') =>
+      new HydraModeler<Models>(options)
+        .addModels((mb) =>
+          mb
+            .add('Customer', { code: {}, name: {}, AddressCode: {} })
+            .add('Address', { code: {}, street: {} })
+            .add('Product', { code: {}, name: {}, CustomerCode: {} }),
+        )
+        .associate('Customer', (ab) =>
+          ab.belongsTo('Address').hasMany('Product', 'Products', empty ? { empty } : {}),
+        );
+
+    it('defaults to [] for collections and omits single associations', () => {
+      expect(builder.hydrate(unmatched, schema)).toEqual([{ ...customer, Products: [] }]);
+    });
+
+    it('applies the modeler-wide default', () => {
+      expect(build({ emptyAssociations: 'empty' }).hydrate(unmatched, schema)).toEqual([
+        { ...customer, Address: null, Products: [] },
+      ]);
+      expect(build({ emptyAssociations: 'omit' }).hydrate(unmatched, schema)).toEqual([customer]);
+    });
+
+    it('lets associations and schema nodes override the default', () => {
+      const hb = build({ emptyAssociations: 'empty' }, 'omit');
+      expect(hb.hydrate(unmatched, schema)).toEqual([{ ...customer, Address: null }]);
+
+      const nodeOverride: HydrationSchemaNode<Models> = {
+        model: 'Customer',
+        children: [
+          { model: 'Address', empty: 'omit' },
+          { model: 'Product', alias: 'Products', empty: 'empty' },
+        ],
+      };
+      expect(hb.hydrate(unmatched, nodeOverride)).toEqual([{ ...customer, Products: [] }]);
+    });
+
+    it('keeps falsy primary keys like 0 and empty strings', () => {
+      const flat = [0, ''].map((code) => ({
+        'Customer.code': code,
+        'Customer.name': `Customer ${code}`,
+        'Customer.AddressCode': null,
+        'Products.code': code,
+        'Products.name': 'Product',
+        'Products.CustomerCode': code,
+      }));
+      expect(
+        builder.hydrate(flat, {
+          model: 'Customer',
+          children: [{ model: 'Product', alias: 'Products' }],
+        }),
+      ).toEqual([
+        {
+          code: 0,
+          name: 'Customer 0',
+          AddressCode: null,
+          Products: [{ code: 0, name: 'Product', CustomerCode: 0 }],
+        },
+        {
+          code: '',
+          name: 'Customer ',
+          AddressCode: null,
+          Products: [{ code: '', name: 'Product', CustomerCode: '' }],
+        },
+      ]);
+    });
+  });
+
+  describe('key-verified child matching', () => {
+    const customerRow = (code: string | null, name: string | null) => ({
+      'Customer.code': code,
+      'Customer.name': name,
+      'Customer.AddressCode': null,
+    });
+    const productRow = (code: string | null, customerCode: string | null) => ({
+      'Products.code': code,
+      'Products.name': code && `Product ${code}`,
+      'Products.CustomerCode': customerCode,
+    });
+    const schema: HydrationSchemaNode<Models> = {
+      model: 'Customer',
+      children: [{ model: 'Product', alias: 'Products' }],
+    };
+    // P2 belongs to C2 but a broken join put it next to C1
+    const misjoined = [
+      { ...customerRow('C1', 'A'), ...productRow('P1', 'C1') },
+      { ...customerRow('C1', 'A'), ...productRow('P2', 'C2') },
+      { ...customerRow('C2', 'B'), ...productRow(null, null) },
+    ];
+    const productCodes = (result: Record<string, any>[]) =>
+      result.map((c) => [c.code, c.Products.map((p: { code: string }) => p.code)]);
+
+    it('trusts the join by default', () => {
+      expect(productCodes(builder.hydrate(misjoined, schema))).toEqual([
+        ['C1', ['P1', 'P2']],
+        ['C2', []],
+      ]);
+    });
+
+    it('matches children through the declared keys', () => {
+      const keyed = new HydraModeler<Models>({ childMatching: 'keys' });
+      keyed
+        .addModels((mb) =>
+          mb
+            .add('Customer', { code: {}, name: {}, AddressCode: {} })
+            .add('Product', { code: {}, name: {}, CustomerCode: {} }),
+        )
+        .associate('Customer', (ab) => ab.hasMany('Product', 'Products'));
+      expect(productCodes(keyed.hydrate(misjoined, schema))).toEqual([
+        ['C1', ['P1']],
+        ['C2', ['P2']],
+      ]);
+      // the same through a node-level override
+      const nodeKeyed: HydrationSchemaNode<Models> = {
+        model: 'Customer',
+        children: [{ model: 'Product', alias: 'Products', match: 'keys' }],
+      };
+      expect(productCodes(builder.hydrate(misjoined, nodeKeyed))).toEqual([
+        ['C1', ['P1']],
+        ['C2', ['P2']],
+      ]);
+    });
+
+    it('reports mismatching joined children in strict mode', () => {
+      const strict: HydrationSchemaNode<Models> = {
+        model: 'Customer',
+        children: [{ model: 'Product', alias: 'Products', match: 'strict' }],
+      };
+      expect(() => builder.hydrate(misjoined, strict)).toThrow(AssociationKeyMismatchError);
+    });
+
+    it('hydrates rows that were never joined', async () => {
+      // e.g. UNION ALL of a customer query and an address/product query padded with nulls
+      const union = [
+        {
+          ...customerRow('C1', 'A'),
+          'Customer.AddressCode': 'A1',
+          'Address.code': null,
+          'Address.street': null,
+          ...productRow(null, null),
+        },
+        {
+          ...customerRow(null, null),
+          'Address.code': 'A1',
+          'Address.street': 'Street 1',
+          ...productRow(null, null),
+        },
+        {
+          ...customerRow(null, null),
+          'Address.code': null,
+          'Address.street': null,
+          ...productRow('P1', 'C1'),
+        },
+        {
+          ...customerRow(null, null),
+          'Address.code': null,
+          'Address.street': null,
+          ...productRow('P2', 'C1'),
+        },
+      ];
+      const unionSchema: HydrationSchemaNode<Models> = {
+        model: 'Customer',
+        children: [
+          { model: 'Address', match: 'keys' },
+          { model: 'Product', alias: 'Products', match: 'keys' },
+        ],
+      };
+      const result = builder.hydrate(union, unionSchema);
+      expect(result).toEqual([
+        {
+          code: 'C1',
+          name: 'A',
+          AddressCode: 'A1',
+          Address: { code: 'A1', street: 'Street 1' },
+          Products: [
+            { code: 'P1', name: 'Product P1', CustomerCode: 'C1' },
+            { code: 'P2', name: 'Product P2', CustomerCode: 'C1' },
+          ],
+        },
+      ]);
+
+      const streamed = [];
+      for await (const customer of builder.hydrateStream(union, unionSchema, { ordered: false })) {
+        streamed.push(customer);
+      }
+      expect(streamed).toEqual(result);
+      // an ordered stream only sees the rows of the current root
+      await expect(builder.hydrateStream(union, unionSchema).next()).rejects.toThrow(
+        OrderedStreamKeyMatchingError,
+      );
+    });
+  });
+
+  describe('joins', () => {
+    it('emits LEFT JOINs from the declared associations', () => {
+      const schema: HydrationSchemaNode<Models> = {
+        model: 'Customer',
+        children: [
+          { model: 'Address' },
+          {
+            model: 'Product',
+            alias: 'Products',
+            children: [{ model: 'Edition', alias: 'Editions' }],
+          },
+        ],
+      };
+      expect(builder.joins(schema)).toEqual([
+        'LEFT JOIN "Address" ON "Address"."code" = "Customer"."AddressCode"',
+        'LEFT JOIN "Product" AS "Products" ON "Products"."CustomerCode" = "Customer"."code"',
+        'LEFT JOIN "Edition" AS "Editions" ON "Editions"."ProductCode" = "Products"."code"',
+      ]);
+    });
+
+    it('joins the through table for belongsToMany and supports processors', () => {
+      const hb = new HydraModeler<Models>()
+        .addModels((mb) =>
+          mb
+            .add('Customer', { code: {}, name: {}, AddressCode: {} })
+            .add('Product', { code: {}, name: {}, CustomerCode: {} })
+            .add('CustomerProduct', { CustomerCode: {}, ProductCode: {}, meta: {} }),
+        )
+        .associate('Customer', (ab) =>
+          ab.belongsToMany('Product', 'CustomerProduct', {
+            as: 'Products',
+            through: { as: 'CustomerProducts' },
+          }),
+        );
+      const schema: HydrationSchemaNode<Models> = {
+        model: 'Customer',
+        children: [{ model: 'Product', alias: 'Products' }],
+      };
+      expect(hb.joins((join) => ({ raw: join }), schema)).toEqual([
+        {
+          raw: 'LEFT JOIN "CustomerProduct" AS "CustomerProducts" ON "CustomerProducts"."CustomerCode" = "Customer"."code"',
+        },
+        {
+          raw: 'LEFT JOIN "Product" AS "Products" ON "Products"."code" = "CustomerProducts"."ProductCode"',
+        },
+      ]);
+    });
+
+    it('joins composite keys column by column', () => {
+      const hb = new HydraModeler<{
+        Account: { tenantId: number; code: string };
+        Invoice: { id: number; AccountTenantId: number; AccountCode: string };
+      }>()
+        .addModels((mb) =>
+          mb
+            .add('Account', { tenantId: {}, code: {} }, ['tenantId', 'code'])
+            .add('Invoice', { id: {}, AccountTenantId: {}, AccountCode: {} }, 'id'),
+        )
+        .associate('Account', (ab) => ab.hasMany('Invoice', 'Invoices'));
+      expect(
+        hb.joins({ model: 'Account', children: [{ model: 'Invoice', alias: 'Invoices' }] }),
+      ).toEqual([
+        'LEFT JOIN "Invoice" AS "Invoices" ON "Invoices"."AccountTenantId" = "Account"."tenantId" AND "Invoices"."AccountCode" = "Account"."code"',
+      ]);
+    });
+  });
+
+  describe('select', () => {
+    it('builds columns, joins and a primary key ORDER BY for the whole schema', () => {
+      const select = builder.select({
+        model: 'Customer',
+        alias: 'c',
+        children: [
+          { model: 'Address' },
+          {
+            model: 'Product',
+            alias: 'Products',
+            children: [{ model: 'Edition', alias: 'Editions' }],
+          },
+        ],
+      });
+      expect(select.columns).toEqual([
+        ...builder.columns('Customer', 'c'),
+        ...builder.columns('Address'),
+        ...builder.columns('Product', 'Products'),
+        ...builder.columns('Edition', 'Editions'),
+      ]);
+      expect(select.sql).toBe(
+        [
+          `SELECT ${select.columns.join(', ')}`,
+          'FROM "Customer" AS "c"',
+          'LEFT JOIN "Address" ON "Address"."code" = "c"."AddressCode"',
+          'LEFT JOIN "Product" AS "Products" ON "Products"."CustomerCode" = "c"."code"',
+          'LEFT JOIN "Edition" AS "Editions" ON "Editions"."ProductCode" = "Products"."code"',
+          'ORDER BY "c"."code", "Address"."code", "Products"."code", "Editions"."code"',
+        ].join('\n'),
+      );
+    });
+
+    it('selects JSON children as a column of their parent', () => {
+      const schema: HydrationSchemaNode<Models> = {
+        model: 'Customer',
+        children: [{ model: 'Product', alias: 'Products', json: 'products' }],
+      };
+      const select = builder.select(schema);
+      expect(select.columns).toEqual([
+        ...builder.columns('Customer'),
+        '"Customer"."products" as "Customer.products"',
+      ]);
+      expect(select.sql).not.toContain('JOIN');
+
+      const row = {
+        'Customer.code': 'C1',
+        'Customer.name': 'Alice',
+        'Customer.AddressCode': null,
+        'Customer.products': [{ code: 'P1', name: 'Pen', CustomerCode: 'C1' }],
+      };
+      expect(builder.hydrate([row], schema)[0]?.Products).toEqual([
+        { code: 'P1', name: 'Pen', CustomerCode: 'C1' },
+      ]);
+    });
+
+    it('selects every alias the schema needs, through tables included', () => {
+      const hb = new HydraModeler<Models>({ columnSeparator: '__' })
+        .addModels((mb) =>
+          mb
+            .add('Customer', { code: {}, name: {}, AddressCode: {} })
+            .add('Product', { code: {}, name: {}, CustomerCode: {} })
+            .add('CustomerProduct', { CustomerCode: {}, ProductCode: {}, meta: {} }),
+        )
+        .associate('Customer', (ab) =>
+          ab.belongsToMany('Product', 'CustomerProduct', {
+            as: 'Products',
+            through: { as: 'CustomerProducts' },
+          }),
+        );
+      const schema: HydrationSchemaNode<Models> = {
+        model: 'Customer',
+        children: [{ model: 'Product', alias: 'Products' }],
+      };
+      const { columns } = hb.select(schema);
+      expect(columns).toContain(
+        '"CustomerProducts"."ProductCode" as "CustomerProducts__ProductCode"',
+      );
+
+      // a row shaped by the selected column names hydrates without alias errors
+      const row = Object.fromEntries(
+        columns.map((c) => [c.slice(c.lastIndexOf(' as "') + 5, -1), 'X']),
+      );
+      expect(hb.hydrate([row], schema)).toHaveLength(1);
+    });
+  });
+
+  describe('dialects', () => {
+    it('quotes columns and joins for the configured dialect', () => {
+      const mysql = new HydraModeler<Models>()
+        .addModels((mb) =>
+          mb
+            .add('Customer', { code: {}, name: {}, AddressCode: {} })
+            .add('Address', { code: {}, street: {} }),
+        )
+        .associate('Customer', (ab) => ab.belongsTo('Address'))
+        .withDialect('mysql');
+      const dialect: 'mysql' = mysql.dialect;
+      expect(dialect).toBe('mysql');
+      expect(new HydraModeler<Models, {}, 'mysql'>(mysql).dialect).toBe('mysql');
+      expect(mysql.columns('Customer', 'c', ['code'])).toEqual(['`c`.`code` as `c.code`']);
+      expect(mysql.joins({ model: 'Customer', children: [{ model: 'Address' }] })).toEqual([
+        'LEFT JOIN `Address` ON `Address`.`code` = `Customer`.`AddressCode`',
+      ]);
+    });
+
+    it('types columns() for the dialect chosen with withDialect()', () => {
+      const mssql = builder.withDialect('mssql');
+      const columns: `[c].[${string}] as [c${string}]`[] = mssql.columns('Customer', 'c');
+      expect(columns[0]).toBe('[c].[code] as [c.code]');
+      // the original modeler keeps its dialect
+      expect(builder.columns('Customer', 'c')[0]).toBe('"c"."code" as "c.code"');
+    });
+
+    it('escapes quote characters inside identifiers', () => {
+      expect(builder.columns('Address', 'a"b', ['code'])).toEqual(['"a""b"."code" as "a""b.code"']);
+      expect(builder.withDialect('mssql').columns('Address', 'a]b', ['code'])).toEqual([
+        '[a]]b].[code] as [a]]b.code]',
+      ]);
+    });
+
+    it('rejects identifiers the dialect would truncate', () => {
+      const alias = 'A'.repeat(60);
+      expect(() => builder.withDialect('postgres').columns('Address', alias)).toThrow(
+        IdentifierTooLongError,
+      );
+      // limits apply once a dialect is chosen
+      expect(builder.columns('Address', alias)).toHaveLength(2);
+      expect(builder.withDialect('mysql').columns('Address', alias)).toHaveLength(2);
+      expect(builder.withDialect('sqlite').columns('Address', 'A'.repeat(500))).toHaveLength(2);
+      // mysql and mssql count characters, postgres counts UTF-8 bytes
+      const accented = 'é'.repeat(40);
+      expect(builder.withDialect('mysql').columns('Address', accented)).toHaveLength(2);
+      expect(builder.withDialect('mssql').columns('Address', accented)).toHaveLength(2);
+      expect(() => builder.withDialect('postgres').columns('Address', accented)).toThrow(
+        IdentifierTooLongError,
+      );
+    });
+  });
+
+  describe('column naming', () => {
+    const build = (options: HydraModelerOptions) =>
+      new HydraModeler<{
+        Customer: { code: string; name: string };
+        Product: { code: string; CustomerCode: string };
+      }>(options)
+        .addModels((mb) =>
+          mb.add('Customer', { code: {}, name: {} }).add('Product', { code: {}, CustomerCode: {} }),
+        )
+        .associate('Customer', (ab) => ab.hasMany('Product', 'Products'));
+    const schema: HydrationSchemaNode<any> = {
+      model: 'Customer',
+      alias: 'c',
+      children: [{ model: 'Product', alias: 'Products' }],
+    };
+
+    it('honours a custom separator in hydrate, columns and flatten', () => {
+      const hb = build({ columnSeparator: '__' });
+      expect(hb.columns('Customer', 'c')).toEqual([
+        '"c"."code" as "c__code"',
+        '"c"."name" as "c__name"',
+      ]);
+      const flat = [
+        { c__code: 'C1', c__name: 'A', Products__code: 'P1', Products__CustomerCode: 'C1' },
+        { c__code: 'C1', c__name: 'A', Products__code: 'P2', Products__CustomerCode: 'C1' },
+      ];
+      const hydrated = hb.hydrate<any, any>(flat, schema);
+      expect(hydrated).toEqual([
+        {
+          code: 'C1',
+          name: 'A',
+          Products: [
+            { code: 'P1', CustomerCode: 'C1' },
+            { code: 'P2', CustomerCode: 'C1' },
+          ],
+        },
+      ]);
+      expect(hb.flatten(hydrated, schema)).toEqual(flat);
+    });
+
+    it('supports a custom format/parse pair', () => {
+      const hb = build({
+        columnNaming: {
+          format: (alias, attribute) => `${alias.toLowerCase()}_${attribute}`,
+          parse: (column) => {
+            const [alias, ...rest] = column.split('_');
+            if (!alias || !rest.length) return undefined;
+            return { alias: alias === 'products' ? 'Products' : alias, attribute: rest.join('_') };
+          },
+        },
+      });
+      expect(hb.columns('Product', 'Products', ['code'])).toEqual([
+        '"Products"."code" as "products_code"',
+      ]);
+      const hydrated = hb.hydrate<any, any>(
+        [{ c_code: 'C1', c_name: 'A', products_code: 'P1', products_CustomerCode: 'C1' }],
+        schema,
+      );
+      expect(hydrated[0].Products).toEqual([{ code: 'P1', CustomerCode: 'C1' }]);
+    });
+
+    it('validates aliases against the configured separator', () => {
+      const hb = build({ columnSeparator: '__' });
+      expect(() => hb.hydrate([{ 'c.code': 'C1', 'c.name': 'A' }], schema)).toThrow(
+        SchemaAliasMissingError,
+      );
+    });
+
+    it('keeps the naming on cloned modelers', async () => {
+      const hb = new HydraModeler(build({ columnSeparator: '__' }));
+      const out = [];
+      for await (const row of hb.hydrateStream<any, any>(
+        [{ c__code: 'C1', c__name: 'A', Products__code: null, Products__CustomerCode: null }],
+        schema,
+      ))
+        out.push(row);
+      expect(out).toEqual([{ code: 'C1', name: 'A', Products: [] }]);
+    });
+  });
+
+  describe('fromSequelize', () => {
+    interface Store {
+      Address: { id: number; street: string };
+      Tag: { id: number; name: string };
+      CustomerTag: { customerId: number; tagId: number };
+      Order: { id: number; customerId: number };
+      Customer: { id: number; name: string; addressId: number };
+    }
+    // plain objects shaped like Sequelize model metadata
+    const VIRTUAL = new (class VIRTUAL {})();
+    const Address = {
+      name: 'Address',
+      primaryKeyAttributes: ['id'],
+      getAttributes: () => ({ id: { field: 'address_id' }, street: {}, label: { type: VIRTUAL } }),
+    };
+    const Tag = { name: 'Tag', primaryKeyAttributes: ['id'], rawAttributes: { id: {}, name: {} } };
+    const CustomerTag = {
+      name: 'CustomerTag',
+      primaryKeyAttributes: ['customerId', 'tagId'],
+      rawAttributes: { customerId: {}, tagId: {} },
+    };
+    const Order = {
+      name: 'Order',
+      primaryKeyAttributes: ['id'],
+      rawAttributes: { id: {}, customerId: { field: 'customer_id' } },
+    };
+    const Customer = {
+      name: 'Customer',
+      primaryKeyAttributes: ['id'],
+      rawAttributes: { id: {}, name: {}, addressId: {} },
+      associations: {
+        Address: {
+          associationType: 'BelongsTo',
+          as: 'Address',
+          target: Address,
+          foreignKey: 'addressId',
+          targetKey: 'id',
+        },
+        Orders: {
+          associationType: 'HasMany',
+          as: 'Orders',
+          target: Order,
+          foreignKey: 'customerId',
+          sourceKey: 'id',
+        },
+        Tags: {
+          associationType: 'BelongsToMany',
+          as: 'Tags',
+          target: Tag,
+          through: { model: CustomerTag },
+          foreignKey: 'customerId',
+          otherKey: 'tagId',
+          sourceKey: 'id',
+          targetKey: 'id',
+        },
+      },
+    };
+    const hb = HydraModeler.fromSequelize<Store>({ Address, Tag, CustomerTag, Order, Customer });
+
+    it('imports attributes, primary keys and associations', () => {
+      expect(Object.keys(hb.getModel('Address').attributes)).toEqual(['id', 'street']);
+      expect(hb.getModel('CustomerTag').primaryKey).toEqual(['customerId', 'tagId']);
+      expect(hb.getAssociation('Customer', 'Address')).toMatchObject({
+        associationType: 'BelongsTo',
+        foreignKey: 'addressId',
+        targetKey: 'id',
+      });
+      expect(hb.getAssociation('Customer', 'Tags')?.through).toMatchObject({
+        foreignKey: 'customerId',
+        otherKey: 'tagId',
+      });
+
+      const [customer] = hb.hydrate(
+        [
+          {
+            'Customer.id': 1,
+            'Customer.name': 'Alice',
+            'Customer.addressId': 7,
+            'Address.id': 7,
+            'Address.street': 'Main Street',
+            'Orders.id': 3,
+            'Orders.customerId': 1,
+            'CustomerTag.customerId': 1,
+            'CustomerTag.tagId': 5,
+            'Tags.id': 5,
+            'Tags.name': 'vip',
+          },
+        ],
+        {
+          model: 'Customer',
+          children: [
+            { model: 'Address' },
+            { model: 'Order', alias: 'Orders' },
+            { model: 'Tag', alias: 'Tags' },
+          ],
+        },
+      );
+      expect(customer).toEqual({
+        id: 1,
+        name: 'Alice',
+        addressId: 7,
+        Address: { id: 7, street: 'Main Street' },
+        Orders: [{ id: 3, customerId: 1 }],
+        Tags: [{ id: 5, name: 'vip' }],
+      });
+    });
+
+    it('selects and joins `field` column names', () => {
+      expect(hb.columns('Address', ['id'])).toEqual(['"Address"."address_id" as "Address.id"']);
+      expect(
+        hb.joins({
+          model: 'Customer',
+          children: [{ model: 'Address' }, { model: 'Order', alias: 'Orders' }],
+        }),
+      ).toEqual([
+        'LEFT JOIN "Address" ON "Address"."address_id" = "Customer"."addressId"',
+        'LEFT JOIN "Order" AS "Orders" ON "Orders"."customer_id" = "Customer"."id"',
+      ]);
+    });
+  });
+
+  describe('fromDrizzle', () => {
+    const addresses = pgTable('addresses', {
+      id: integer('id').primaryKey(),
+      street: text('street'),
+    });
+    const customers = pgTable('customers', {
+      id: integer('id').primaryKey(),
+      name: text('full_name'),
+      addressId: integer('address_id'),
+    });
+    const orders = pgTable('orders', {
+      id: integer('id').primaryKey(),
+      customerId: integer('customer_id'),
+    });
+    const customerTags = pgTable(
+      'customer_tags',
+      { customerId: integer('customer_id'), tag: text('tag') },
+      (t) => [primaryKey({ columns: [t.customerId, t.tag] })],
+    );
+    const customersRelations = relations(customers, ({ one, many }) => ({
+      address: one(addresses, { fields: [customers.addressId], references: [addresses.id] }),
+      orders: many(orders),
+    }));
+    const ordersRelations = relations(orders, ({ one }) => ({
+      customer: one(customers, { fields: [orders.customerId], references: [customers.id] }),
+    }));
+    const hb = HydraModeler.fromDrizzle({
+      addresses,
+      customers,
+      orders,
+      customerTags,
+      customersRelations,
+      ordersRelations,
+    });
+
+    it('imports columns, primary keys and relations', () => {
+      expect(hb.getModel('customers').attributes).toEqual({
+        id: {},
+        name: { field: 'full_name' },
+        addressId: { field: 'address_id' },
+      });
+      expect(hb.getModel('customerTags').primaryKey).toEqual(['customerId', 'tag']);
+      expect(hb.getAssociation('customers', 'address')).toMatchObject({
+        associationType: 'BelongsTo',
+        foreignKey: 'addressId',
+        targetKey: 'id',
+      });
+      expect(hb.getAssociation('customers', 'orders')).toMatchObject({
+        associationType: 'HasMany',
+        foreignKey: 'customerId',
+        sourceKey: 'id',
+      });
+      expect(
+        hb.joins({
+          model: 'customers',
+          children: [
+            { model: 'addresses', alias: 'address' },
+            { model: 'orders', alias: 'orders' },
+          ],
+        }),
+      ).toEqual([
+        'LEFT JOIN "addresses" AS "address" ON "address"."id" = "customers"."address_id"',
+        'LEFT JOIN "orders" ON "orders"."customer_id" = "customers"."id"',
+      ]);
+    });
+  });
+
+  describe('fromIntrospection', () => {
+    const introspection = {
+      columns: [
+        { table_name: 'customer', column_name: 'name', ordinal_position: 2 },
+        { table_name: 'customer', column_name: 'id', ordinal_position: 1 },
+        { table_name: 'customer', column_name: 'referrer_id', ordinal_position: 3 },
+        { table_name: 'invoice', column_name: 'id', ordinal_position: 1 },
+        { table_name: 'invoice', column_name: 'customer_id', ordinal_position: 2 },
+      ],
+      primaryKeys: [
+        { table_name: 'customer', column_name: 'id', constraint_name: 'customer_pkey' },
+        { table_name: 'invoice', column_name: 'id', constraint_name: 'invoice_pkey' },
+      ],
+      foreignKeys: [
+        {
+          table_name: 'invoice',
+          column_name: 'customer_id',
+          constraint_name: 'invoice_customer_fk',
+          referenced_table_name: 'customer',
+          referenced_column_name: 'id',
+        },
+        {
+          table_name: 'customer',
+          column_name: 'referrer_id',
+          constraint_name: 'customer_referrer_fk',
+          referenced_table_name: 'customer',
+          referenced_column_name: 'id',
+        },
+      ],
+    };
+
+    it('imports tables and derives associations from foreign keys', () => {
+      const hb = HydraModeler.fromIntrospection(introspection);
+      expect(Object.keys(hb.getModel('customer').attributes)).toEqual([
+        'id',
+        'name',
+        'referrer_id',
+      ]);
+      expect(hb.getModel('invoice').primaryKey).toBe('id');
+      expect(hb.getAssociation('invoice', 'customer')).toMatchObject({
+        associationType: 'BelongsTo',
+        foreignKey: 'customer_id',
+      });
+      expect(hb.getAssociation('customer', 'invoice')).toMatchObject({
+        associationType: 'HasMany',
+        foreignKey: 'customer_id',
+        sourceKey: 'id',
+      });
+      // self reference: the second name falls back to the constraint
+      expect(hb.getAssociation('customer', 'customer')?.associationType).toBe('BelongsTo');
+      expect(hb.getAssociation('customer', 'customer_referrer_fk')?.associationType).toBe(
+        'HasMany',
+      );
+
+      const [customer] = hb.hydrate<any, any>(
+        [
+          {
+            'customer.id': 1,
+            'customer.name': 'Alice',
+            'customer.referrer_id': null,
+            'invoice.id': 9,
+            'invoice.customer_id': 1,
+          },
+        ],
+        { model: 'customer', children: [{ model: 'invoice' }] },
+      );
+      expect(customer.invoice).toEqual([{ id: 9, customer_id: 1 }]);
+    });
+
+    it('can skip associations', () => {
+      const hb = HydraModeler.fromIntrospection(introspection, { associations: false });
+      expect(hb.getAssociations('invoice').size).toBe(0);
+    });
+  });
+
+  describe('toJsonSchema', () => {
+    interface Billing {
+      Customer: { code: string; name: string };
+      Address: { code: string; CustomerCode: string };
+      Order: { code: string; total: number | null; CustomerCode: string };
+    }
+    const hb = new HydraModeler<Billing>()
+      .addModels((mb) =>
+        mb
+          .add('Customer', { code: { type: 'string' }, name: { type: 'string', allowNull: false } })
+          .add('Address', { code: {}, CustomerCode: {} })
+          .add('Order', { code: {}, total: HydraConverters.decimal, CustomerCode: {} }),
+      )
+      .associate('Customer', (ab) =>
+        ab.hasOne('Address', { empty: 'empty' }).hasMany('Order', 'Orders'),
+      );
+    const schema: HydrationSchemaNode<Billing> = {
+      model: 'Customer',
+      children: [{ model: 'Address' }, { model: 'Order', alias: 'Orders' }],
+    };
+
+    it('describes the hydrated shape with one definition per node', () => {
+      expect(hb.toJsonSchema(schema)).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'array',
+        items: { $ref: '#/$defs/Customer' },
+        $defs: {
+          Customer: {
+            type: 'object',
+            properties: {
+              code: { type: 'string' },
+              name: { type: 'string' },
+              Address: { anyOf: [{ $ref: '#/$defs/Customer.Address' }, { type: 'null' }] },
+              Orders: { type: 'array', items: { $ref: '#/$defs/Customer.Orders' } },
+            },
+            required: ['code', 'name', 'Address', 'Orders'],
+          },
+          'Customer.Address': {
+            type: 'object',
+            properties: { code: {}, CustomerCode: {} },
+            required: ['code', 'CustomerCode'],
+          },
+          'Customer.Orders': {
+            type: 'object',
+            properties: { code: {}, total: { type: ['number', 'null'] }, CustomerCode: {} },
+            required: ['code', 'total', 'CustomerCode'],
+          },
+        },
+      });
+    });
+
+    it('emits OpenAPI components', () => {
+      const { schemas } = hb.toOpenApi(schema);
+      expect(Object.keys(schemas)).toEqual(['Customer', 'Customer.Address', 'Customer.Orders']);
+      expect(schemas.Customer?.properties.Orders.items).toEqual({
+        $ref: '#/components/schemas/Customer.Orders',
+      });
+    });
+  });
+
+  describe('conflicting values', () => {
+    interface Accounts {
+      Customer: {
+        code: string;
+        name: string;
+        AddressCode: string | null;
+        since: Date;
+        settings: Record<string, unknown>;
+      };
+    }
+    const rows = [
+      { 'Customer.code': 'C1', 'Customer.name': 'Alice', 'Customer.AddressCode': null },
+      { 'Customer.code': 'C1', 'Customer.name': 'Alicia', 'Customer.AddressCode': null },
+    ];
+    const build = (options: HydraModelerOptions) =>
+      new HydraModeler<Accounts>(options).addModels((mb) =>
+        mb.add('Customer', {
+          code: {},
+          name: {},
+          AddressCode: {},
+          since: HydraConverters.date,
+          settings: {},
+        }),
+      );
+
+    it('ignores disagreeing rows by default', () => {
+      expect(build({}).hydrate(rows, { model: 'Customer' })).toEqual([
+        { code: 'C1', name: 'Alice', AddressCode: null },
+      ]);
+    });
+
+    it('throws a descriptive error in throw mode', () => {
+      expect(() => build({ conflicts: 'throw' }).hydrate(rows, { model: 'Customer' })).toThrow(
+        new ConflictingValuesError('Customer', 'C1', 'name', ['Alice', 'Alicia']),
+      );
+      expect(() => build({ conflicts: 'throw' }).hydrate(rows, { model: 'Customer' })).toThrow(
+        `Rows of 'Customer' with primary key C1 disagree on 'name': "Alice" vs "Alicia".`,
+      );
+    });
+
+    it('compares JSON values regardless of key order', () => {
+      const settings = [
+        { theme: 'dark', limits: { daily: 1, monthly: 30 } },
+        { limits: { monthly: 30, daily: 1 }, theme: 'dark' },
+      ];
+      const json = [
+        { ...rows[0]!, 'Customer.settings': settings[0] },
+        { ...rows[0]!, 'Customer.settings': settings[1] },
+      ];
+      expect(() =>
+        build({ conflicts: 'throw' }).hydrate(json, { model: 'Customer' }),
+      ).not.toThrow();
+      json[1]!['Customer.settings'] = { ...settings[1]!, theme: 'light' };
+      expect(() => build({ conflicts: 'throw' }).hydrate(json, { model: 'Customer' })).toThrow(
+        ConflictingValuesError,
+      );
+    });
+
+    it('reports through a callback in warn mode and compares dates by value', () => {
+      const onConflict = jest.fn();
+      const dated = rows.map((row) => ({ ...row, 'Customer.since': new Date(0) }));
+      const hydrated = build({ conflicts: 'warn', onConflict }).hydrate(dated, {
+        model: 'Customer',
+      });
+
+      expect(hydrated[0]?.name).toBe('Alice');
+      expect(onConflict).toHaveBeenCalledTimes(1);
+      expect(onConflict).toHaveBeenCalledWith({
+        alias: 'Customer',
+        primaryKey: 'C1',
+        attribute: 'name',
+        values: ['Alice', 'Alicia'],
+      });
+      // warnings without a callback would go nowhere
+      expect(() => build({ conflicts: 'warn' })).toThrow(ConflictHandlerMissingError);
+    });
+  });
+
+  describe('sparse rows', () => {
+    const sparse = () =>
+      new HydraModeler<Models>({ sparseRows: true })
+        .addModels((mb) =>
+          mb
+            .add('Customer', { code: {}, name: {}, AddressCode: {} })
+            .add('Address', { code: {}, street: {} })
+            .add('Product', { code: {}, name: {}, CustomerCode: {} }),
+        )
+        .associate('Customer', (ab) => ab.belongsTo('Address').hasMany('Product', 'Products'));
+    const schema: HydrationSchemaNode<Models> = {
+      model: 'Customer',
+      children: [{ model: 'Address' }, { model: 'Product', alias: 'Products' }],
+    };
+    // UNION ALL of a customer/address query and a customer/product query
+    const rows = [
+      { 'Customer.code': 'C1', 'Customer.name': 'Alice', 'Address.code': null },
+      { 'Customer.code': 'C1', 'Products.code': 'P1', 'Products.name': 'Pen' },
+      { 'Customer.code': 'C2', 'Customer.AddressCode': 'A1', 'Address.code': 'A1' },
+    ];
+
+    it('rejects rows with different columns by default', () => {
+      expect(() => builder.hydrate(rows, schema)).toThrow(AllFlatRowsMustHaveSamePropertiesError);
+    });
+
+    it('hydrates children present in some rows and leaves missing attributes out', () => {
+      expect(sparse().hydrate(rows, schema)).toEqual([
+        { code: 'C1', name: 'Alice', Products: [{ code: 'P1', name: 'Pen' }] },
+        { code: 'C2', AddressCode: 'A1', Address: { code: 'A1' }, Products: [] },
+      ]);
+    });
+
+    it('checks aliases across all rows', () => {
+      expect(() =>
+        sparse().hydrate(rows.slice(0, 1), { model: 'Customer', children: [{ model: 'Address' }] }),
+      ).not.toThrow();
+      expect(() =>
+        sparse().hydrate(rows, { model: 'Customer', children: [{ model: 'Product' as const }] }),
+      ).toThrow(SchemaAliasMissingError);
+    });
+
+    it('streams sparse rows like hydrate, checking aliases once the source ends', async () => {
+      const out = [];
+      for await (const customer of sparse().hydrateStream(rows, schema)) out.push(customer);
+      expect(out).toEqual(sparse().hydrate(rows, schema));
+      expect(out.map((c) => c.Products?.length)).toEqual([1, 0]);
+
+      const typo = { model: 'Customer', children: [{ model: 'Product', alias: 'Prodcts' }] };
+      // @ts-expect-error an untyped schema, as one built at runtime would be
+      const stream = sparse().hydrateStream(rows, typo, { ordered: false });
+      await expect(stream.next()).rejects.toThrow(SchemaAliasMissingError);
+    });
+  });
+
+  describe('JSON columns', () => {
+    const schema: HydrationSchemaNode<Models> = {
+      model: 'Customer',
+      children: [
+        { model: 'Address', json: 'address' },
+        { model: 'Product', alias: 'Products', json: 'products' },
+      ],
+    };
+    // e.g. json_agg / jsonArrayFrom subqueries next to the root columns
+    const rows = [
+      {
+        'Customer.code': 'C1',
+        'Customer.name': 'Alice',
+        'Customer.AddressCode': 'A1',
+        'Customer.address': { code: 'A1', street: 'Main Street' },
+        products:
+          '[{"code":"P1","name":"Pen"},{"code":"P2","name":"Book"},{"code":"P1","name":"Pen"}]',
+      },
+      {
+        'Customer.code': 'C2',
+        'Customer.name': 'Bob',
+        'Customer.AddressCode': null,
+        'Customer.address': null,
+        products: '[]',
+      },
+    ];
+
+    it('hydrates children from JSON objects, arrays and strings', () => {
+      expect(builder.hydrate(rows, schema)).toEqual([
+        {
+          code: 'C1',
+          name: 'Alice',
+          AddressCode: 'A1',
+          Address: { code: 'A1', street: 'Main Street' },
+          Products: [
+            { code: 'P1', name: 'Pen' },
+            { code: 'P2', name: 'Book' },
+          ],
+        },
+        { code: 'C2', name: 'Bob', AddressCode: null, Products: [] },
+      ]);
+    });
+
+    it('treats null elements as no match', () => {
+      const unmatched = [{ ...rows[1]!, 'Customer.address': null, products: [null] }];
+      expect(builder.hydrate(unmatched, schema)[0]?.Products).toEqual([]);
+      expect(builder.hydrate([{ ...unmatched[0]!, products: '[null]' }], schema)).toEqual([
+        { code: 'C2', name: 'Bob', AddressCode: null, Products: [] },
+      ]);
+    });
+
+    it('flattens JSON children into their column', () => {
+      const customers = builder.hydrate(rows, schema);
+      const flat = builder.flatten(customers, schema);
+
+      expect(flat[0]).toEqual({
+        'Customer.code': 'C1',
+        'Customer.name': 'Alice',
+        'Customer.AddressCode': 'A1',
+        'Customer.address': { code: 'A1', street: 'Main Street' },
+        'Customer.products': [
+          { code: 'P1', name: 'Pen', CustomerCode: 'C1' },
+          { code: 'P2', name: 'Book', CustomerCode: 'C1' },
+        ],
+      });
+      expect(flat[1]).toMatchObject({ 'Customer.address': null, 'Customer.products': [] });
+      expect(builder.hydrate(flat, schema)[0]?.Products).toHaveLength(2);
+    });
+
+    it('applies converters and hooks, and joins nothing for JSON children', () => {
+      const converted = new HydraModeler<Models>()
+        .addModels((mb) =>
+          mb.add('Customer', { code: {}, name: {}, AddressCode: {} }).add('Address', {
+            code: {},
+            street: { from: (raw: unknown) => String(raw).toUpperCase() },
+          }),
+        )
+        .associate('Customer', (ab) => ab.belongsTo('Address'));
+      const addressSchema: HydrationSchemaNode<Models> = {
+        model: 'Customer',
+        children: [
+          {
+            model: 'Address',
+            json: 'address',
+            postProcess: (address, parents) => ({ ...address, of: parents['Customer']?.code }),
+          },
+        ],
+      };
+
+      const [alice] = converted.hydrate(rows.slice(0, 1), addressSchema);
+      expect(alice?.Address).toEqual({ code: 'A1', street: 'MAIN STREET', of: 'C1' });
+      expect(converted.joins(addressSchema)).toEqual([]);
+      expect(converted.validateSchema(addressSchema, { columns: Object.keys(rows[0]!) })).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe('hydrateMany', () => {
+    const rows = [
+      {
+        'Customer.code': 'C1',
+        'Customer.name': 'Alice',
+        'Customer.AddressCode': 'A1',
+        'Address.code': 'A1',
+        'Address.street': 'Main Street',
+        'Supplier.code': 'S1',
+        'Supplier.name': 'Acme',
+        'Supplier.AddressCode': null,
+      },
+      {
+        'Customer.code': 'C2',
+        'Customer.name': 'Bob',
+        'Customer.AddressCode': null,
+        'Address.code': null,
+        'Address.street': null,
+        'Supplier.code': 'S1',
+        'Supplier.name': 'Acme',
+        'Supplier.AddressCode': null,
+      },
+    ];
+
+    it('hydrates independent roots from one result set', () => {
+      const { customers, suppliers } = builder.hydrateMany(rows, {
+        customers: { model: 'Customer', children: [{ model: 'Address' }] },
+        suppliers: { model: 'Customer', alias: 'Supplier' },
+      });
+
+      const street: string | undefined = customers[0]?.Address?.street;
+      expect(street).toBe('Main Street');
+      expect(customers.map((c) => c.code)).toEqual(['C1', 'C2']);
+      expect(suppliers).toEqual([{ code: 'S1', name: 'Acme', AddressCode: null }]);
+    });
+
+    it('rejects roots claiming the same alias', () => {
+      expect(() =>
+        builder.hydrateMany(rows, {
+          customers: { model: 'Customer', children: [{ model: 'Address' }] },
+          suppliers: { model: 'Customer', alias: 'Supplier', children: [{ model: 'Address' }] },
+        }),
+      ).toThrow(new OverlappingRootAliasesError('Address', 'customers', 'suppliers'));
+    });
+  });
+
+  describe('explain', () => {
+    it('returns the result with a trace per alias path', () => {
+      const row = (code: string, product: string | null) => ({
+        'Customer.code': code,
+        'Customer.name': `Customer ${code}`,
+        'Customer.AddressCode': null,
+        'Products.code': product,
+        'Products.name': product,
+        'Products.CustomerCode': product && code,
+      });
+      const { result, trace } = builder.explain(
+        [
+          row('C1', 'P1'),
+          row('C1', 'P2'),
+          row('C2', null),
+          { ...row('C3', 'P3'), 'Customer.code': null },
+        ],
+        { model: 'Customer', children: [{ model: 'Product', alias: 'Products' }] },
+      );
+
+      expect(result.map((c) => c.code)).toEqual(['C1', 'C2']);
+      expect(trace).toEqual({
+        Customer: {
+          rows: 4,
+          groups: 2,
+          dropped: { 'null-primary-key': 1 },
+          skipped: 0,
+          keys: ['code', 'name', 'AddressCode', 'Products'],
+        },
+        'Customer.Products': {
+          rows: 3,
+          groups: 2,
+          dropped: { 'null-primary-key': 1 },
+          skipped: 0,
+          association: { type: 'HasMany', source: 'Customer', as: 'Products', target: 'Product' },
+          keys: ['code', 'name', 'CustomerCode'],
+        },
+      });
+    });
+  });
+
+  describe('validateSchema', () => {
+    it('accepts a valid schema', () => {
+      expect(
+        builder.validateSchema({
+          model: 'Customer',
+          children: [{ model: 'Address' }, { model: 'Product', alias: 'Products' }],
+        }),
+      ).toEqual([]);
+    });
+
+    it('reports every problem with its path', () => {
+      const problems = builder.validateSchema(
+        {
+          model: 'Customer',
+          children: [
+            { model: 'Address' },
+            { model: 'Address' },
+            { model: 'Product', alias: 'name' },
+            {
+              model: 'Product',
+              alias: 'Products',
+              children: [{ model: 'Address' }, { model: 'Edition', alias: 'Editions' }],
+            },
+            { model: 'Missing' as any },
+          ],
+        },
+        { columns: ['Customer.code', 'Address.code', 'Products.code'] },
+      );
+
+      expect(problems.map(({ path, error }) => [path, error.constructor])).toEqual([
+        ['Customer', OutputKeyConflictError],
+        ['Customer', OutputKeyConflictError],
+        ['Customer.name', AssociationNotDeclaredError],
+        ['Customer.name', SchemaAliasMissingError],
+        ['Customer.Products.Address', AssociationNotDeclaredError],
+        ['Customer.Products.Editions', SchemaAliasMissingError],
+        ['Customer.Missing', NodeModelNotFoundError],
+      ]);
+      expect(problems[0]?.error.message).toContain('"Address" of "Customer"');
+    });
+
+    it('checks that JSON columns are selected', () => {
+      const schema: HydrationSchemaNode<Models> = {
+        model: 'Customer',
+        children: [
+          { model: 'Address', json: 'address' },
+          { model: 'Product', alias: 'Products', json: 'products' },
+        ],
+      };
+      const problems = builder.validateSchema(schema, {
+        columns: ['Customer.code', 'Customer.address'],
+      });
+      expect(problems.map(({ path, error }) => [path, error.constructor])).toEqual([
+        ['Customer.Products', JsonColumnMissingError],
+      ]);
+      expect(
+        builder.validateSchema(schema, {
+          columns: ['Customer.code', 'Customer.address', 'products'],
+        }),
+      ).toEqual([]);
+    });
+
+    it('reports an unknown root model', () => {
+      const [problem] = builder.validateSchema({ model: 'Nope' as any });
+      expect(problem?.error).toBeInstanceOf(SchemaModelNotFoundError);
+    });
+  });
+
   describe('test edge-cases', () => {
     let nature: HydraModeler<any>;
     beforeEach(() => {
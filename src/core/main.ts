@@ -6,42 +6,104 @@ type LooseAttributes<T> = {
   [K in keyof T as T[K] extends undefined ? K : never]?: any;
 };
 
+/** A single column name or an ordered tuple of column names (composite key). */
+export type HydraKey = string | readonly string[];
+
+type HydraKeyOf<T> = Extract<keyof T, string> | readonly Extract<keyof T, string>[];
+
+/**
+ * Output for a declared association whose LEFT JOIN found no match: `'empty'` emits `null`
+ * (belongsTo, hasOne, morphTo) or `[]` (hasMany, belongsToMany, morphMany); `'omit'` leaves the key
+ * out. Without any policy, collections are `[]` and single associations are omitted.
+ */
+export type HydraEmptyAssociation = 'empty' | 'omit';
+
+/**
+ * How child rows are matched to their parent:
+ * - `'rows'` (default): children are read from the parent's rows, trusting the join.
+ * - `'keys'`: children are looked up among all input rows through the declared keys, so the rows
+ *   need not be joined at all; joined rows whose keys disagree with the parent are dropped.
+ * - `'strict'`: like `'keys'`, but a joined child whose keys disagree throws
+ *   `AssociationKeyMismatchError`.
+ */
+export type HydraChildMatching = 'rows' | 'keys' | 'strict';
+
+/**
+ * Attributes are read from the first row of an entity; this compares the entity's other rows
+ * against it: `'off'` (default), `'throw'` a `ConflictingValuesError`, or `'warn'` through
+ * `onConflict` (required in that mode).
+ */
+export type HydraConflictCheck = 'off' | 'throw' | 'warn';
+
+/** Two rows of one entity carrying different values for an attribute. */
+export interface HydraValueConflict {
+  alias: string;
+  primaryKey: unknown;
+  attribute: string;
+  /** The value hydrated (from the first row) and the disagreeing one, both raw. */
+  values: [unknown, unknown];
+}
+
+interface HydraMorphTarget {
+  model: IHydrationModelWithAssociations;
+  alias: string;
+  targetKey: HydraKey;
+}
+
 interface HydraAssociation {
   as: string;
   associationType: string;
-  foreignKey?: string;
+  foreignKey?: HydraKey;
   source: IHydrationModelWithAssociations;
-  sourceKey: string;
+  sourceKey: HydraKey;
+  /** For MorphTo: the first declared target; the per-row target comes from `morph.targets`. */
   target: IHydrationModelWithAssociations;
-  targetKey: string;
+  targetKey: HydraKey;
   through?: {
     model: IHydrationModelWithAssociations;
     alias?: string;
-    foreignKey: string;
-    otherKey: string;
+    foreignKey: HydraKey;
+    otherKey: HydraKey;
+  };
+  morph?: {
+    /** Discriminator column (on the source for MorphTo, on the target for MorphMany). */
+    typeKey: string;
+    /** MorphMany: discriminator value identifying the source model. */
+    typeValue?: string;
+    /** MorphTo: discriminator value -> target model and column prefix. */
+    targets?: Record<string, HydraMorphTarget>;
   };
+  empty?: HydraEmptyAssociation;
 }
 
+const keyColumns = (key: HydraKey): readonly string[] => (typeof key === 'string' ? [key] : key);
+
+const MANY_ASSOCIATIONS = new Set(['HasMany', 'BelongsToMany', 'MorphMany']);
+
 export interface CreateHydraBelongsToAssociation<
   TModels,
   SourceName extends keyof TModels,
   TargetName extends Extract<keyof TModels, string>,
+  As extends string = string,
 > {
-  as?: string;
-  foreignKey?: Extract<keyof TModels[SourceName], string>;
-  sourceKey?: Extract<keyof TModels[SourceName], string>;
-  targetKey?: Extract<keyof TModels[TargetName], string>;
+  as?: As;
+  foreignKey?: HydraKeyOf<TModels[SourceName]>;
+  sourceKey?: HydraKeyOf<TModels[SourceName]>;
+  targetKey?: HydraKeyOf<TModels[TargetName]>;
+  empty?: HydraEmptyAssociation;
 }
 
 export interface CreateHydraHasOneAssociation<
   TModels,
   SourceName extends keyof TModels,
   TargetName extends Extract<keyof TModels, string>,
+  As extends string = string,
 > {
-  as?: string;
-  foreignKey?: Extract<keyof TModels[TargetName], string>;
-  sourceKey?: Extract<keyof TModels[SourceName], string>;
-  targetKey?: Extract<keyof TModels[TargetName], string>;
+  as?: As;
+  foreignKey?: HydraKeyOf<TModels[TargetName]>;
+  sourceKey?: HydraKeyOf<TModels[SourceName]>;
+  targetKey?: HydraKeyOf<TModels[TargetName]>;
+  empty?: HydraEmptyAssociation;
 }
 
 export interface CreateHydraHasManyAssociation<
@@ -49,9 +111,10 @@ export interface CreateHydraHasManyAssociation<
   SourceName extends keyof TModels,
   TargetName extends Extract<keyof TModels, string>,
 > {
-  foreignKey?: Extract<keyof TModels[TargetName], string>;
-  sourceKey?: Extract<keyof TModels[SourceName], string>;
-  targetKey?: Extract<keyof TModels[TargetName], string>;
+  foreignKey?: HydraKeyOf<TModels[TargetName]>;
+  sourceKey?: HydraKeyOf<TModels[SourceName]>;
+  targetKey?: HydraKeyOf<TModels[TargetName]>;
+  empty?: HydraEmptyAssociation;
 }
 
 export interface CreateHydraBelongsToManyAssociation<
@@ -59,21 +122,126 @@ export interface CreateHydraBelongsToManyAssociation<
   SourceName extends keyof TModels,
   TargetName extends Extract<keyof TModels, string>,
   ThroughName extends Extract<keyof TModels, string>,
+  As extends string = string,
 > {
-  as?: string;
+  as?: As;
   through?: {
-    foreignKey?: Extract<keyof TModels[ThroughName], string>;
-    otherKey?: Extract<keyof TModels[ThroughName], string>;
+    foreignKey?: HydraKeyOf<TModels[ThroughName]>;
+    otherKey?: HydraKeyOf<TModels[ThroughName]>;
     as?: string;
   };
-  sourceKey?: Extract<keyof TModels[SourceName], string>;
-  targetKey?: Extract<keyof TModels[TargetName], string>;
+  sourceKey?: HydraKeyOf<TModels[SourceName]>;
+  targetKey?: HydraKeyOf<TModels[TargetName]>;
+  empty?: HydraEmptyAssociation;
+}
+
+export interface CreateHydraMorphToAssociation<
+  TModels,
+  SourceName extends keyof TModels,
+  TargetName extends Extract<keyof TModels, string>,
+> {
+  /** Discriminator column on the source, e.g. `commentableType`. */
+  typeKey: Extract<keyof TModels[SourceName], string>;
+  /** Column(s) on the source referencing the target's `targetKey`, e.g. `commentableId`. */
+  idKey: HydraKeyOf<TModels[SourceName]>;
+  /** Discriminator value -> target model name, or model with column prefix and key. */
+  targets: Record<
+    string,
+    TargetName | { model: TargetName; alias?: string; targetKey?: HydraKeyOf<TModels[TargetName]> }
+  >;
+  empty?: HydraEmptyAssociation;
+}
+
+export interface CreateHydraMorphManyAssociation<
+  TModels,
+  SourceName extends keyof TModels,
+  TargetName extends Extract<keyof TModels, string>,
+> {
+  /** Discriminator column on the target, e.g. `commentableType`. */
+  typeKey: Extract<keyof TModels[TargetName], string>;
+  /** Column(s) on the target referencing the source's `sourceKey`, e.g. `commentableId`. */
+  idKey: HydraKeyOf<TModels[TargetName]>;
+  /** Discriminator value stored for this source model; defaults to the source model name. */
+  typeValue?: string;
+  sourceKey?: HydraKeyOf<TModels[SourceName]>;
+  empty?: HydraEmptyAssociation;
+}
+
+/** Type-level record of a declared association: its target model and cardinality. */
+export interface HydraAssociationShape {
+  target: string;
+  cardinality: 'one' | 'many';
+}
+
+/** Association registry tracked at type level: source model -> association `as` -> shape. */
+export type HydraAssociationRegistry = Record<string, Record<string, HydraAssociationShape>>;
+
+export interface HydraAssociationBuilder<
+  TModels,
+  SourceName extends Extract<keyof TModels, string>,
+  TAdded extends Record<string, HydraAssociationShape> = {},
+> {
+  belongsTo<TargetName extends Extract<keyof TModels, string>, As extends string = TargetName>(
+    targetModelName: TargetName,
+    options?: CreateHydraBelongsToAssociation<TModels, SourceName, TargetName, As>,
+  ): HydraAssociationBuilder<
+    TModels,
+    SourceName,
+    TAdded & Record<As, { target: TargetName; cardinality: 'one' }>
+  >;
+  hasOne<TargetName extends Extract<keyof TModels, string>, As extends string = TargetName>(
+    targetModelName: TargetName,
+    options?: CreateHydraHasOneAssociation<TModels, SourceName, TargetName, As>,
+  ): HydraAssociationBuilder<
+    TModels,
+    SourceName,
+    TAdded & Record<As, { target: TargetName; cardinality: 'one' }>
+  >;
+  hasMany<TargetName extends Extract<keyof TModels, string>, As extends string>(
+    targetModelName: TargetName,
+    alias: As,
+    options?: CreateHydraHasManyAssociation<TModels, SourceName, TargetName>,
+  ): HydraAssociationBuilder<
+    TModels,
+    SourceName,
+    TAdded & Record<As, { target: TargetName; cardinality: 'many' }>
+  >;
+  belongsToMany<
+    TargetName extends Extract<keyof TModels, string>,
+    ThroughName extends Extract<keyof TModels, string>,
+    As extends string = TargetName,
+  >(
+    targetModelName: TargetName,
+    throughModelName: ThroughName,
+    options: CreateHydraBelongsToManyAssociation<TModels, SourceName, TargetName, ThroughName, As>,
+  ): HydraAssociationBuilder<
+    TModels,
+    SourceName,
+    TAdded & Record<As, { target: TargetName; cardinality: 'many' }>
+  >;
+  morphTo<As extends string, TargetName extends Extract<keyof TModels, string>>(
+    as: As,
+    options: CreateHydraMorphToAssociation<TModels, SourceName, TargetName>,
+  ): HydraAssociationBuilder<
+    TModels,
+    SourceName,
+    TAdded & Record<As, { target: TargetName; cardinality: 'one' }>
+  >;
+  morphMany<TargetName extends Extract<keyof TModels, string>, As extends string>(
+    targetModelName: TargetName,
+    alias: As,
+    options: CreateHydraMorphManyAssociation<TModels, SourceName, TargetName>,
+  ): HydraAssociationBuilder<
+    TModels,
+    SourceName,
+    TAdded & Record<As, { target: TargetName; cardinality: 'many' }>
+  >;
 }
 
 export interface IHydraBaseModel {
   name: string;
   attributes: Record<string, any>;
-  primaryKey: string;
+  primaryKey: HydraKey;
 }
 
 export interface IHydrationModelWithAssociations extends IHydraBaseModel {
@@ -127,6 +295,15 @@ export class SchemaAliasMissingError extends Error {
   }
 }
 
+export class JsonColumnMissingError extends Error {
+  constructor(alias: string, json: string) {
+    super(
+      `JSON column "${json}" of "${alias}" (selected as "${alias}.${json}" or "${json}") not found in the input dataset.`,
+    );
+    this.name = 'JsonColumnMissingError';
+  }
+}
+
 export class HasManyMissingAliasError extends Error {
   constructor(sourceModel: string, targetModel: string) {
     super(
@@ -174,6 +351,112 @@ export class AllFlatRowsMustHaveSamePropertiesError extends Error {
   }
 }
 
+export class AssociationKeyArityMismatchError extends Error {
+  constructor(sourceModel: string, as: string, expected: number, received: number) {
+    super(
+      `Association "${as}" on "${sourceModel}" pairs a ${expected}-column key with a ${received}-column key.`,
+    );
+    this.name = 'AssociationKeyArityMismatchError';
+  }
+}
+
+export class UnorderedStreamRowsError extends Error {
+  constructor(alias: string, primaryKeyValue: unknown) {
+    super(
+      `Rows for '${alias}' with primary key ${String(primaryKeyValue)} break the order of the primary keys before it, ` +
+        `so an entity may already have been emitted. Order the source by the root primary key or use { ordered: false }.`,
+    );
+    this.name = 'UnorderedStreamRowsError';
+  }
+}
+
+export class OrderedStreamKeyMatchingError extends Error {
+  constructor(alias: string, matching: HydraChildMatching) {
+    super(
+      `Child '${alias}' uses childMatching '${matching}', which needs every row of the result, ` +
+        `but an ordered stream only sees the rows of the current root. Use { ordered: false }.`,
+    );
+    this.name = 'OrderedStreamKeyMatchingError';
+  }
+}
+
+export class MorphTargetNotDeclaredError extends Error {
+  constructor(sourceModel: string, as: string, typeValue: unknown) {
+    super(
+      `MorphTo association "${as}" on "${sourceModel}" declares no target for discriminator value "${String(typeValue)}".`,
+    );
+    this.name = 'MorphTargetNotDeclaredError';
+  }
+}
+
+export class InvalidRecursiveAssociationError extends Error {
+  constructor(modelName: string, via: string) {
+    super(
+      `Recursive association "${via}" on "${modelName}" must be a HasMany, HasOne or BelongsTo association of "${modelName}" to itself.`,
+    );
+    this.name = 'InvalidRecursiveAssociationError';
+  }
+}
+
+export class RecursiveCycleError extends Error {
+  constructor(alias: string, primaryKeyValue: unknown) {
+    super(
+      `Cycle detected in recursive rows of '${alias}' at primary key ${String(primaryKeyValue)}.`,
+    );
+    this.name = 'RecursiveCycleError';
+  }
+}
+
+export class AssociationKeyMismatchError extends Error {
+  constructor(sourceModel: string, as: string, parentKeyValue: unknown, childKeyValue: unknown) {
+    super(
+      `Association "${as}" on "${sourceModel}": row joined to key ${String(parentKeyValue)} carries key ${String(childKeyValue)}.`,
+    );
+    this.name = 'AssociationKeyMismatchError';
+  }
+}
+
+export class IdentifierTooLongError extends Error {
+  constructor(identifier: string, dialect: string, maxLength: number) {
+    super(
+      `Identifier "${identifier}" exceeds the ${maxLength}-byte limit of ${dialect} and would be truncated.`,
+    );
+    this.name = 'IdentifierTooLongError';
+  }
+}
+
+export class ConflictingValuesError extends Error {
+  constructor(alias: string, primaryKeyValue: unknown, attribute: string, values: unknown[]) {
+    super(
+      `Rows of '${alias}' with primary key ${String(primaryKeyValue)} disagree on '${attribute}': ` +
+        values.map((value) => JSON.stringify(value) ?? String(value)).join(' vs ') +
+        `. Check the joins and the declared primary key.`,
+    );
+    this.name = 'ConflictingValuesError';
+  }
+}
+
+export class ConflictHandlerMissingError extends Error {
+  constructor() {
+    super(`conflicts: 'warn' reports through onConflict, which is not set.`);
+    this.name = 'ConflictHandlerMissingError';
+  }
+}
+
+export class OverlappingRootAliasesError extends Error {
+  constructor(alias: string, firstRoot: string, secondRoot: string) {
+    super(`Alias "${alias}" is claimed by both roots "${firstRoot}" and "${secondRoot}".`);
+    this.name = 'OverlappingRootAliasesError';
+  }
+}
+
+export class OutputKeyConflictError extends Error {
+  constructor(path: string, key: string) {
+    super(`Output key "${key}" of "${path}" is written by more than one attribute or association.`);
+    this.name = 'OutputKeyConflictError';
+  }
+}
+
 export class ModelIsMissingAliasError extends Error {
   constructor(model: string) {
     super(`Model ${model} must have explicit alias defined.`);
@@ -181,23 +464,131 @@ export class ModelIsMissingAliasError extends Error {
   }
 }
 
+// ------------ Attribute converters ------------
+
+/**
+ * Attribute definitions passed to `addModels().add()` may carry converters: `from` turns the raw
+ * column value into the hydrated value, `to` is the inverse used when writing rows (`flatten`).
+ * SQL NULL (`null`/`undefined`) is passed through without calling either.
+ */
+export interface HydraAttributeConverter<TValue = any, TRaw = any> {
+  from?: (raw: TRaw) => TValue;
+  to?: (value: TValue) => TRaw;
+}
+
+const TRUTHY_STRINGS = new Set(['1', 't', 'true', 'y', 'yes']);
+
+/** Built-in converters, e.g. `add('Order', { createdAt: HydraConverters.date, ... })`. */
+export const HydraConverters = {
+  date: {
+    from: (raw: string | number | Date) => (raw instanceof Date ? raw : new Date(raw)),
+    to: (value: Date) => value.toISOString(),
+  } satisfies HydraAttributeConverter<Date>,
+  bigint: {
+    from: (raw: string | number | bigint) => BigInt(raw),
+    to: (value: bigint) => value.toString(),
+  } satisfies HydraAttributeConverter<bigint>,
+  decimal: {
+    from: (raw: string | number) => Number(raw),
+    to: (value: number) => String(value),
+  } satisfies HydraAttributeConverter<number>,
+  boolean: {
+    from: (raw: string | number | boolean) =>
+      typeof raw === 'string' ? TRUTHY_STRINGS.has(raw.toLowerCase()) : Boolean(raw),
+    to: (value: boolean) => (value ? 1 : 0),
+  } satisfies HydraAttributeConverter<boolean>,
+  json: {
+    from: (raw: unknown) => (typeof raw === 'string' ? JSON.parse(raw) : raw),
+    to: (value: unknown) => JSON.stringify(value),
+  } satisfies HydraAttributeConverter<unknown>,
+};
+
+const fromRawValue = (definition: unknown, raw: unknown): unknown => {
+  const from = (definition as HydraAttributeConverter | null)?.from;
+  return raw == null || typeof from !== 'function' ? raw : from(raw);
+};
+
+const toRawValue = (definition: unknown, value: unknown): unknown => {
+  const to = (definition as HydraAttributeConverter | null)?.to;
+  return value == null || typeof to !== 'function' ? value : to(value);
+};
+
+/** Equality of raw column values; dates and JSON values compare by content, in any key order. */
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      sameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+  );
+};
+
+/** Compares two (composite) key tuples element by element as JavaScript orders their values. */
+const compareKeys = (a: readonly unknown[], b: readonly unknown[]): number => {
+  for (let i = 0; i < a.length; i++) {
+    const [left, right] = [a[i] as any, b[i] as any];
+    if (left < right) return -1;
+    if (left > right) return 1;
+  }
+  return 0;
+};
+
+const orderComparator = (orderBy: HydraOrderBy): ((a: any, b: any) => number) => {
+  if (typeof orderBy === 'function') return orderBy;
+  const terms = (Array.isArray(orderBy) ? orderBy : [orderBy]).map(
+    (term: string | HydraOrderTerm): HydraOrderTerm =>
+      typeof term === 'string' ? { attribute: term } : term,
+  );
+  return (a, b) => {
+    for (const { attribute, direction = 'asc', nulls } of terms) {
+      const left = a?.[attribute];
+      const right = b?.[attribute];
+      if (left == null || right == null) {
+        if (left == null && right == null) continue;
+        const nullsFirst = (nulls ?? (direction === 'asc' ? 'last' : 'first')) === 'first';
+        return (left == null) === nullsFirst ? -1 : 1;
+      }
+      const order = left < right ? -1 : left > right ? 1 : 0;
+      if (order) return direction === 'asc' ? order : -order;
+    }
+    return 0;
+  };
+};
+
 // HydraModel implementation
 
 class HydraModel<TAttrs extends Record<string, any> = Record<string, any>> {
   private _name: string;
   private _attributes: TAttrs;
-  private _primaryKey: string;
+  private _primaryKey: HydraKey;
 
-  constructor(name: string, attributes: LooseAttributes<TAttrs>, primaryKey?: keyof TAttrs) {
+  constructor(
+    name: string,
+    attributes: LooseAttributes<TAttrs>,
+    primaryKey?: keyof TAttrs | readonly (keyof TAttrs)[],
+  ) {
     this._name = name;
-    this._primaryKey = String(primaryKey ?? 'code');
+    this._primaryKey =
+      primaryKey == null
+        ? 'code'
+        : typeof primaryKey === 'object'
+          ? primaryKey.map(String)
+          : String(primaryKey);
 
     this._attributes = this.filterValidAttributes(attributes);
 
-    const mapAttributes = new Map<string, unknown>(Object.entries(this._attributes));
-    if (!mapAttributes.has(this._primaryKey)) {
-      mapAttributes.set(this._primaryKey, {});
-      this._attributes = mapAttributes as unknown as TAttrs & { code: unknown };
+    // every primary key column must be hydrated, even when not declared as attribute
+    const missing = keyColumns(this._primaryKey).filter((pk) => !(pk in this._attributes));
+    if (missing.length) {
+      this._attributes = {
+        ...this._attributes,
+        ...Object.fromEntries(missing.map((pk) => [pk, {}])),
+      };
     }
   }
 
@@ -220,7 +611,7 @@ class HydraModel<TAttrs extends Record<string, any> = Record<string, any>> {
     return this._attributes;
   }
 
-  get primaryKey(): string {
+  get primaryKey(): HydraKey {
     return this._primaryKey;
   }
 }
@@ -231,6 +622,28 @@ type AnyHydrationNode<TModels> = {
   [K in Extract<keyof TModels, string>]: HydrationSchemaNode<TModels, K>;
 }[Extract<keyof TModels, string>];
 
+export interface HydrationRecursiveOptions {
+  via: string;
+  maxDepth?: number;
+}
+
+export interface HydraOrderTerm<TAttribute extends string = string> {
+  attribute: TAttribute;
+  direction?: 'asc' | 'desc';
+  /** Defaults to SQL's usual placement: `last` for `asc`, `first` for `desc`. */
+  nulls?: 'first' | 'last';
+}
+
+/**
+ * Presentation order of a node's hydrated array: attribute names (ascending), order terms, or a
+ * comparator over the hydrated (post-processed) objects. Ties keep the input order.
+ */
+export type HydraOrderBy<TAttribute extends string = string, R = Record<string, any>> =
+  | TAttribute
+  | HydraOrderTerm<TAttribute>
+  | readonly (TAttribute | HydraOrderTerm<TAttribute>)[]
+  | ((a: R, b: R) => number);
+
 export type HydrationSchemaNode<
   TModels,
   ModelName extends Extract<keyof TModels, string> = Extract<keyof TModels, string>,
@@ -244,72 +657,588 @@ export type HydrationSchemaNode<
    * - output key in the hydrated object.
    */
   alias?: HydraAlias;
+  /**
+   * Builds an arbitrary-depth tree from the rows of this node's model (e.g. a recursive CTE)
+   * by following the self-association `via` (declared `as`). Output stops after `maxDepth` levels.
+   */
+  recursive?: HydrationRecursiveOptions;
+  /** Overrides the association's (and the modeler's) `HydraEmptyAssociation` policy. */
+  empty?: HydraEmptyAssociation;
+  /** How this child's rows are matched to the parent; overrides the modeler's `childMatching`. */
+  match?: HydraChildMatching;
+  /**
+   * Reads this child from a JSON column of the parent row (`json_agg`, `jsonArrayFrom`,
+   * `JSON_OBJECT`...) instead of prefixed columns: `'<parent alias>.<json>'`, else `json` itself.
+   * The column holds an object or array (or its JSON string) keyed by attribute; nested JSON
+   * children name a property of those objects. `select()` reads it from the parent's table (a
+   * stored JSON column or one of a view) without a join.
+   */
+  json?: string;
+  /** Sorts the root result or this child collection (and each level of a recursive tree). */
+  orderBy?: HydraOrderBy<
+    ModelName extends any ? Extract<keyof TModels[ModelName], string> : never,
+    R
+  >;
   postProcess?: (
     row: TModels[ModelName] & Record<string, any>,
     parents: Record<string, Record<string, any>>,
   ) => R;
-  children?: AnyHydrationNode<TModels>[];
+  children?: (AnyHydrationNode<TModels> | HydrationMorphNode<TModels>)[];
+};
+
+/**
+ * Child node for a `morphTo` association: the target model (and its column prefix) is picked per
+ * row from the discriminator. `targets` optionally overrides the node used per discriminator value.
+ */
+export type HydrationMorphNode<TModels> = {
+  /** Declared `as` of the `morphTo` association; also the output key. */
+  morph: string;
+  targets?: Record<string, AnyHydrationNode<TModels>>;
+  empty?: HydraEmptyAssociation;
+  match?: HydraChildMatching;
+};
+
+// ------------ Inferred result types ------------
+
+type IsUnion<T, U = T> = T extends any ? ([U] extends [T] ? false : true) : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type SchemaChildKey<C> = C extends { morph: infer K extends string }
+  ? K
+  : C extends { alias: infer A extends string }
+    ? A
+    : C extends { model: infer M extends string }
+      ? M
+      : never;
+
+type HydratedChildValue<
+  TModels,
+  TAssocs extends HydraAssociationRegistry,
+  ParentModel extends string,
+  Child,
+> = TAssocs[ParentModel] extends infer Declared extends Record<string, HydraAssociationShape>
+  ? Declared[SchemaChildKey<Child>] extends infer Shape extends HydraAssociationShape
+    ? Child extends { morph: string }
+      ? Shape['target'] extends infer T extends Extract<keyof TModels, string>
+        ? T extends any
+          ? TModels[T] & Record<string, any>
+          : never
+        : any
+      : Shape['cardinality'] extends 'many'
+        ? HydratedNode<TModels, TAssocs, Child>[]
+        : HydratedNode<TModels, TAssocs, Child>
+    : any
+  : any;
+
+type HydratedChildren<
+  TModels,
+  TAssocs extends HydraAssociationRegistry,
+  ParentModel extends string,
+  S,
+> = S extends { children: readonly (infer C)[] }
+  ? {
+      [Child in C as HydratedChildValue<TModels, TAssocs, ParentModel, Child> extends any[]
+        ? SchemaChildKey<Child>
+        : never]: HydratedChildValue<TModels, TAssocs, ParentModel, Child>;
+    } & {
+      [Child in C as HydratedChildValue<TModels, TAssocs, ParentModel, Child> extends any[]
+        ? never
+        : SchemaChildKey<Child>]?: HydratedChildValue<TModels, TAssocs, ParentModel, Child> | null;
+    }
+  : {};
+
+type HydratedTree<Base, Via extends string, Many extends boolean> = Base & {
+  [K in Via]?: Many extends true ? HydratedTree<Base, Via, Many>[] : HydratedTree<Base, Via, Many>;
 };
 
+type HydratedRecursive<
+  TAssocs extends HydraAssociationRegistry,
+  M extends string,
+  S,
+  Base,
+> = S extends {
+  recursive: { via: infer Via extends string };
+}
+  ? TAssocs[M] extends infer Declared extends Record<string, HydraAssociationShape>
+    ? Declared[Via] extends infer Shape extends HydraAssociationShape
+      ? HydratedTree<Base, Via, Shape['cardinality'] extends 'many' ? true : false>
+      : Base & Record<Via, any>
+    : Base & Record<Via, any>
+  : Base;
+
+/**
+ * Result type of hydrating one schema node: the model attributes plus one key per child
+ * (object for `belongsTo`/`hasOne`, array for `hasMany`/`belongsToMany`), or the return type of
+ * `postProcess` when present. Falls back to `Record<string, any>` when the schema is not a literal.
+ */
+export type HydratedNode<TModels, TAssocs extends HydraAssociationRegistry, S> = S extends {
+  model: infer M extends Extract<keyof TModels, string>;
+}
+  ? true extends IsUnion<M>
+    ? Record<string, any>
+    : S extends { postProcess: (...args: any[]) => infer P }
+      ? P
+      : HydratedRecursive<
+          TAssocs,
+          M,
+          S,
+          Simplify<TModels[M] & HydratedChildren<TModels, TAssocs, M, S>>
+        >
+  : Record<string, any>;
+
 // ------------ Hydrator -------------
 
+type FlatRow = Record<string, any>;
+type ParentRecords = Partial<Record<string, Record<string, any>>>;
+
+/**
+ * Column lookup computed once per input shape (every row carries the same columns), so the
+ * per-row work is plain property reads instead of scanning and building column names.
+ */
+class ColumnIndex {
+  /** Column prefixes as reported by `SchemaAliasMissingError` (whole name when unprefixed). */
+  readonly prefixes = new Set<string>();
+  private readonly columns: Set<string>;
+  private readonly aliases = new Map<string, Map<string, string>>();
+  private readonly readers = new Map<string, (row: FlatRow) => any>();
+  private readonly projections = new Map<string, [string, string, unknown][]>();
+
+  constructor(row: FlatRow) {
+    this.columns = new Set(Object.keys(row));
+    for (const column of this.columns) {
+      const at = column.indexOf('.');
+      this.prefixes.add(at < 0 ? column : column.slice(0, at));
+      if (at < 0) continue;
+      const alias = column.slice(0, at);
+      const attributes = this.aliases.get(alias) ?? new Map<string, string>();
+      attributes.set(column.slice(at + 1), column);
+      this.aliases.set(alias, attributes);
+    }
+  }
+
+  /** Index over the columns of all `rows`, for sparse rows that omit columns. */
+  static of(rows: FlatRow[]): ColumnIndex {
+    const columns: FlatRow = {};
+    for (const row of rows) for (const column in row) columns[column] = undefined;
+    return new ColumnIndex(columns);
+  }
+
+  /** Whether `row` has exactly the indexed columns. */
+  matches(row: FlatRow): boolean {
+    let count = 0;
+    for (const column in row) {
+      if (!this.columns.has(column)) return false;
+      count++;
+    }
+    return count === this.columns.size;
+  }
+
+  hasAlias(alias: string): boolean {
+    return this.aliases.has(alias);
+  }
+
+  hasColumn(alias: string, attribute: string): boolean {
+    return this.columns.has(`${alias}.${attribute}`);
+  }
+
+  /**
+   * Reader for a (possibly composite) key. Single-column keys return the raw value;
+   * composite keys return a stable string of the tuple, or `undefined` when any part is null.
+   */
+  key(alias: string, key: HydraKey): (row: FlatRow) => any {
+    const columns = keyColumns(key).map((column) => `${alias}.${column}`);
+    const id = columns.join('\0');
+    let reader = this.readers.get(id);
+    if (!reader) {
+      const [single] = columns;
+      reader =
+        columns.length === 1
+          ? (row) => row[single!]
+          : (row) => {
+              const parts = columns.map((column) => row[column]);
+              return parts.some((part) => part == null) ? undefined : JSON.stringify(parts);
+            };
+      this.readers.set(id, reader);
+    }
+    return reader;
+  }
+
+  /** `[attribute, column, definition]` for every model attribute present under `alias`. */
+  attributes(model: IHydraBaseModel, alias: string): [string, string, unknown][] {
+    const id = `${model.name}\0${alias}`;
+    let projection = this.projections.get(id);
+    if (!projection) {
+      const present = this.aliases.get(alias);
+      projection = Object.keys(model.attributes).flatMap((attr): [string, string, unknown][] => {
+        const column = present?.get(attr);
+        return column === undefined ? [] : [[attr, column, model.attributes[attr]]];
+      });
+      this.projections.set(id, projection);
+    }
+    return projection;
+  }
+}
+
+/** Why `explain()` saw a row being left out of a node. */
+export type HydraTraceDropReason =
+  | 'null-primary-key'
+  | 'join-key-mismatch'
+  | 'discriminator-mismatch';
+
+/** What happened to one schema node, keyed in the trace by its alias path (`Customer.Products`). */
+export interface HydraTraceEntry {
+  /** Rows the node was read from, summed over all parents. */
+  rows: number;
+  /** Entities (primary-key groups) formed. */
+  groups: number;
+  dropped: Partial<Record<HydraTraceDropReason, number>>;
+  /** Times the node was skipped because no column carries its alias. */
+  skipped: number;
+  /** Association the node was resolved through; absent for the root. */
+  association?: { type: string; source: string; as: string; target: string };
+  /** Keys written on the node's objects (attributes, associations and `postProcess` additions). */
+  keys: string[];
+}
+
+export interface HydraExplanation<R> {
+  result: R[];
+  trace: Record<string, HydraTraceEntry>;
+}
+
+/** Counters of an `explain()` run. */
+class HydrationTrace {
+  readonly entries: Record<string, HydraTraceEntry> = {};
+
+  /** Entry of the node `alias` below `parents` (the alias chain of a hydration step). */
+  entry(parents: ParentRecords, alias: string): HydraTraceEntry {
+    const path = [...Object.keys(parents).filter((key) => key !== alias), alias].join('.');
+    return (this.entries[path] ??= { rows: 0, groups: 0, dropped: {}, skipped: 0, keys: [] });
+  }
+
+  static drop(entry: HydraTraceEntry | undefined, reason: HydraTraceDropReason): void {
+    if (entry) entry.dropped[reason] = (entry.dropped[reason] ?? 0) + 1;
+  }
+}
+
+/** One hydration run: its column index and rows, bucketed by key value on demand. */
+class HydrationScope {
+  private readonly buckets = new Map<string, Map<unknown, FlatRow[]>>();
+
+  constructor(
+    readonly index: ColumnIndex,
+    readonly rows: FlatRow[],
+    readonly trace?: HydrationTrace,
+  ) {}
+
+  /** Rows whose `key` under `alias` equals `value`. */
+  rowsByKey(alias: string, key: HydraKey, value: unknown): FlatRow[] {
+    const id = `${alias}\0${keyColumns(key).join('\0')}`;
+    let bucket = this.buckets.get(id);
+    if (!bucket) {
+      bucket = new Map();
+      const readKey = this.index.key(alias, key);
+      for (const row of this.rows) {
+        const keyValue = readKey(row);
+        if (keyValue == null) continue;
+        const rows = bucket.get(keyValue);
+        if (rows) rows.push(row);
+        else bucket.set(keyValue, [row]);
+      }
+      this.buckets.set(id, bucket);
+    }
+    return bucket.get(value) ?? [];
+  }
+}
+
 class Hydrator {
   static hydrate<
     TModels extends Record<string, any>,
     ReturnType extends Record<string, any> = Record<string, any>,
   >(
-    flatRows: Record<string, any>[],
+    flatRows: FlatRow[],
     hydraBuilder: HydraModeler<TModels>,
     schema: HydrationSchemaNode<TModels, Extract<keyof TModels, string> & string>,
+    trace?: HydrationTrace,
   ): ReturnType[] {
+    const index = hydraBuilder.sparseRows
+      ? ColumnIndex.of(flatRows)
+      : new ColumnIndex(flatRows[0] ?? {});
     // Check all aliases first (flat prefixes only)
-    this.checkAllSchemaAliasesPresent(schema, flatRows);
+    if (flatRows.length) this.checkAllSchemaAliasesPresent(schema, index);
+
+    const rootAlias = this.alias(schema);
+    const rootModel = hydraBuilder.getModel(schema.model, {
+      noThrow: true,
+    });
+    if (!rootModel) throw new SchemaModelNotFoundError(schema.model);
+
+    const entry = trace?.entry({}, rootAlias);
+    const groups = this.groupRowsByPK(flatRows, rootModel, rootAlias, index, undefined, entry);
+    const scope = new HydrationScope(index, flatRows, trace);
+    return this.hydrateGroups(hydraBuilder, schema as any, groups, scope, {}) as ReturnType[];
+  }
+
+  /**
+   * Hydrates several independent roots selected side by side: one column index, one alias check
+   * and one pass grouping the rows by every root's primary key. Roots must not share aliases.
+   */
+  static hydrateMany<TModels extends Record<string, any>>(
+    flatRows: FlatRow[],
+    hydraBuilder: HydraModeler<TModels>,
+    schemas: Record<string, HydrationSchemaNode<TModels>>,
+  ): Record<string, Record<string, any>[]> {
+    const owners = new Map<string, string>();
+    for (const [name, schema] of Object.entries(schemas)) {
+      for (const alias of this.aliases(hydraBuilder, schema)) {
+        const owner = owners.get(alias);
+        if (owner !== undefined && owner !== name) {
+          throw new OverlappingRootAliasesError(alias, owner, name);
+        }
+        owners.set(alias, name);
+      }
+    }
+
+    const index = hydraBuilder.sparseRows
+      ? ColumnIndex.of(flatRows)
+      : new ColumnIndex(flatRows[0] ?? {});
+    const roots = Object.entries(schemas).map(([name, schema]) => {
+      if (flatRows.length) this.checkAllSchemaAliasesPresent(schema, index);
+      const model = hydraBuilder.getModel(schema.model, { noThrow: true });
+      if (!model) throw new SchemaModelNotFoundError(schema.model);
+      const alias = this.alias(schema);
+      if (flatRows.length) this.assertPrimaryKeyPresent(index, model, alias);
+      const readKey = index.key(alias, model.primaryKey);
+      return { name, schema, readKey, groups: new Map<unknown, FlatRow[]>() };
+    });
+
+    for (const row of flatRows) {
+      for (const { readKey, groups } of roots) {
+        const pk = readKey(row);
+        if (pk == null) continue;
+        const group = groups.get(pk);
+        if (group) group.push(row);
+        else groups.set(pk, [row]);
+      }
+    }
+
+    const scope = new HydrationScope(index, flatRows);
+    return Object.fromEntries(
+      roots.map(({ name, schema, groups }) => [
+        name,
+        this.hydrateGroups(hydraBuilder, schema, groups, scope, {}),
+      ]),
+    );
+  }
+
+  /** Every column prefix a schema reads: its nodes, through tables and morph targets. */
+  private static aliases<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    node: HydrationSchemaNode<TModels>,
+  ): string[] {
+    const model = hydraBuilder.getModel(node.model, { noThrow: true });
+    if (!model) throw new NodeModelNotFoundError(String(node.model));
+    const aliases = [this.alias(node)];
+    for (const child of node.children ?? []) {
+      if ('morph' in child) {
+        const assoc = this.morphAssociation(hydraBuilder, model.name, child);
+        for (const typeValue of Object.keys(assoc.morph!.targets!)) {
+          const target = this.morphTargetNode(assoc, child, typeValue);
+          aliases.push(...this.aliases(hydraBuilder, target));
+        }
+        continue;
+      }
+      if (child.json !== undefined) continue;
+      const through = this.resolveAssociation(hydraBuilder, model.name, child).through;
+      if (through) aliases.push(through.alias ?? through.model.name);
+      aliases.push(...this.aliases(hydraBuilder, child));
+    }
+    return aliases;
+  }
 
+  /**
+   * Streaming variant of `hydrate`. With ordered input (default) every root is yielded as soon as
+   * the root primary key changes; unordered input is buffered and yielded once the source ends.
+   * Key matching (`childMatching: 'keys' | 'strict'`) looks across all rows, so it needs unordered.
+   */
+  static async *hydrateStream<
+    TModels extends Record<string, any>,
+    ReturnType extends Record<string, any> = Record<string, any>,
+  >(
+    rows: AsyncIterable<FlatRow> | Iterable<FlatRow>,
+    hydraBuilder: HydraModeler<TModels>,
+    schema: HydrationSchemaNode<TModels, Extract<keyof TModels, string> & string>,
+    options: HydrateStreamOptions = {},
+  ): AsyncGenerator<ReturnType, void, undefined> {
+    // a tree (or a sorted result) is only complete once every row was read
+    const ordered = (options.ordered ?? true) && !schema.recursive && !schema.orderBy;
     const rootAlias = this.alias(schema);
     const rootModel = hydraBuilder.getModel(schema.model, {
       noThrow: true,
     });
     if (!rootModel) throw new SchemaModelNotFoundError(schema.model);
+    if (ordered) this.assertRowMatching(hydraBuilder, schema);
+
+    let index: ColumnIndex | undefined;
+    let readKey: (row: FlatRow) => any = () => undefined;
+    let currentKey: unknown;
+    let current: FlatRow[] = [];
+    // ordered input: the direction of the first key change, which every later change must follow
+    let direction = 0;
+    const keyParts = (key: unknown): unknown[] =>
+      keyColumns(rootModel.primaryKey).length > 1 ? JSON.parse(key as string) : [key];
+    const buffered = new Map<unknown, FlatRow[]>();
+    // rows without a root (never joined to it), where key matching finds children
+    const unrooted: FlatRow[] = [];
+
+    // sparse rows: every schema alias counts as selected, as it must appear in some row (checked
+    // once the source ends), so a root whose rows lack a child's columns gets it empty
+    const sparse = hydraBuilder.sparseRows;
+    const selected: FlatRow = {};
+    const seen: FlatRow = {};
+    if (sparse) {
+      for (const node of this.selectedNodes(schema)) {
+        const model = hydraBuilder.getModel(node.model, { noThrow: true });
+        if (!model) throw new NodeModelNotFoundError(String(node.model));
+        for (const pk of keyColumns(model.primaryKey)) selected[`${this.alias(node)}.${pk}`] = null;
+      }
+    }
+    const scopeOf = (group: FlatRow[]) =>
+      new HydrationScope(sparse ? ColumnIndex.of([selected, ...group]) : index!, group);
+
+    for await (const row of rows) {
+      if (sparse) for (const column in row) seen[column] = null;
+      if (index === undefined) {
+        index = new ColumnIndex(row);
+        if (!sparse) {
+          this.checkAllSchemaAliasesPresent(schema, index);
+          this.assertPrimaryKeyPresent(index, rootModel, rootAlias);
+        }
+        readKey = index.key(rootAlias, rootModel.primaryKey);
+      } else if (!sparse && !index.matches(row)) {
+        throw new AllFlatRowsMustHaveSamePropertiesError();
+      }
+
+      const pkValue = readKey(row);
+      if (pkValue == null) {
+        if (!ordered) unrooted.push(row);
+        continue;
+      }
+
+      if (!ordered) {
+        const group = buffered.get(pkValue);
+        if (group) group.push(row);
+        else buffered.set(pkValue, [row]);
+        continue;
+      }
 
-    const groups = this.groupRowsByPK(flatRows, rootModel, rootAlias);
-    const results: ReturnType[] = [];
+      if (current.length && pkValue !== currentKey) {
+        const order = compareKeys(keyParts(pkValue), keyParts(currentKey));
+        if (direction && order !== direction)
+          throw new UnorderedStreamRowsError(rootAlias, pkValue);
+        direction = order;
+        const scope = scopeOf(current);
+        yield this.hydrateModelRecursive(hydraBuilder, schema as any, current, scope) as ReturnType;
+        current = [];
+      }
+      currentKey = pkValue;
+      current.push(row);
+    }
 
-    for (const [, group] of groups) {
-      const hydrated = this.hydrateModelRecursive(hydraBuilder, schema as any, group, {});
-      results.push(hydrated as ReturnType);
+    if (!index) return;
+    if (sparse) {
+      const all = new ColumnIndex(seen);
+      this.checkAllSchemaAliasesPresent(schema, all);
+      for (const node of this.selectedNodes(schema)) {
+        this.assertPrimaryKeyPresent(all, hydraBuilder.getModel(node.model), this.alias(node));
+      }
+    }
+    if (current.length) {
+      const scope = scopeOf(current);
+      yield this.hydrateModelRecursive(hydraBuilder, schema as any, current, scope) as ReturnType;
     }
+    const scope = scopeOf([...Array.from(buffered.values()).flat(), ...unrooted]);
+    for (const hydrated of this.hydrateGroups(hydraBuilder, schema as any, buffered, scope, {})) {
+      yield hydrated as ReturnType;
+    }
+  }
 
-    return results;
+  /** Rejects key matching below `node`: its children may sit in the rows of any root. */
+  private static assertRowMatching<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    node: HydrationSchemaNode<TModels>,
+  ): void {
+    for (const child of node.children ?? []) {
+      const matching = child.match ?? hydraBuilder.childMatching;
+      if ('morph' in child) {
+        if (matching !== 'rows') throw new OrderedStreamKeyMatchingError(child.morph, matching);
+        for (const target of Object.values(child.targets ?? {})) {
+          this.assertRowMatching(hydraBuilder, target);
+        }
+        continue;
+      }
+      // JSON children are matched within their own column
+      if (child.json !== undefined) continue;
+      if (matching !== 'rows') throw new OrderedStreamKeyMatchingError(this.alias(child), matching);
+      this.assertRowMatching(hydraBuilder, child);
+    }
   }
 
   static alias(schema: { model: string; alias?: string }): string {
     return schema.alias || schema.model;
   }
 
+  /** Buckets rows by `readKey` in a single pass, keeping first-seen order. */
+  private static groupBy(
+    rows: FlatRow[],
+    readKey: (row: FlatRow) => unknown,
+    accept: (row: FlatRow, key: unknown) => boolean,
+  ): Map<unknown, FlatRow[]> {
+    const map = new Map<unknown, FlatRow[]>();
+    for (const row of rows) {
+      const key = readKey(row);
+      if (!accept(row, key)) continue;
+      const group = map.get(key);
+      if (group) group.push(row);
+      else map.set(key, [row]);
+    }
+    return map;
+  }
+
   private static groupRowsByPK(
-    rows: Record<string, any>[],
+    rows: FlatRow[],
     model: IHydrationModelWithAssociations,
     alias: string,
-  ): Map<string, Record<string, any>[]> {
+    index: ColumnIndex,
+    accept: (row: FlatRow) => boolean = () => true,
+    trace?: HydraTraceEntry,
+  ): Map<unknown, FlatRow[]> {
     if (!alias) throw new ModelIsMissingAliasError(model.name);
-    const map = new Map<string, Record<string, any>[]>();
-    if (!rows.length) return map;
-
-    const primaryKeyName = `${alias}.${model.primaryKey}`;
-    const first = rows[0];
-    if (!first) return map;
-    const primaryKeyExists = Object.prototype.hasOwnProperty.call(first, primaryKeyName);
-    if (!primaryKeyExists) {
-      throw new PrefixedPrimaryKeyNotFoundInFlatRowsError(alias, model.primaryKey);
+    if (!rows.length) return new Map();
+
+    this.assertPrimaryKeyPresent(index, model, alias);
+    const groups = this.groupBy(rows, index.key(alias, model.primaryKey), (row, pk) => {
+      const dropped: HydraTraceDropReason | undefined =
+        pk == null ? 'null-primary-key' : accept(row) ? undefined : 'discriminator-mismatch';
+      if (dropped) HydrationTrace.drop(trace, dropped);
+      return !dropped;
+    });
+    if (trace) {
+      trace.rows += rows.length;
+      trace.groups += groups.size;
     }
-    for (const row of rows) {
-      const pkValue = row[`${alias}.${model.primaryKey}`];
-      if (!pkValue) continue;
-      const group = map.get(pkValue) ?? [];
-      group.push(row);
-      map.set(pkValue, group);
+    return groups;
+  }
+
+  private static assertPrimaryKeyPresent(
+    index: ColumnIndex,
+    model: IHydrationModelWithAssociations,
+    alias: string,
+  ): void {
+    const primaryKeyColumns = keyColumns(model.primaryKey);
+    if (!primaryKeyColumns.every((pk) => index.hasColumn(alias, pk))) {
+      throw new PrefixedPrimaryKeyNotFoundInFlatRowsError(alias, [...primaryKeyColumns]);
     }
-    return map;
   }
 
   private static hydrateModelRecursive<
@@ -318,8 +1247,10 @@ class Hydrator {
   >(
     hydraBuilder: HydraModeler<TModels>,
     node: HydrationSchemaNode<TModels, M>,
-    rows: Record<string, any>[],
-    parentsIn: Partial<Record<string, Record<string, any>>> = {},
+    rows: FlatRow[],
+    scope: HydrationScope,
+    parentsIn: ParentRecords = {},
+    attach?: (result: Record<string, any>, parents: ParentRecords) => void,
   ): Record<string, any> {
     // resolve model (custom error if missing)
     const model = hydraBuilder.getModel(node.model as any, {
@@ -330,162 +1261,1784 @@ class Hydrator {
     }
 
     const alias = this.alias(node);
+    const { index } = scope;
 
     const row = rows[0];
     if (!row) return {};
     const result: Record<string, any> = {};
-    for (const attr of Object.keys(model.attributes)) {
-      const key = `${alias}.${attr}`;
-      if (key in row) result[attr] = row[key];
+    const sparse = hydraBuilder.sparseRows;
+    for (const [attr, column, definition] of index.attributes(model, alias)) {
+      // sparse rows: first row carrying the column; absent when none does
+      const source = sparse ? rows.find((r) => column in r) : row;
+      if (source) result[attr] = fromRawValue(definition, source[column]);
+    }
+    if (rows.length > 1 && hydraBuilder.conflicts !== 'off') {
+      this.checkConflicts(hydraBuilder, model, alias, rows, index);
     }
 
-    const newParents: Partial<Record<string, Record<string, any>>> = {
+    const newParents: ParentRecords = {
       ...parentsIn,
       [alias]: result,
     };
 
     for (const child of node.children ?? []) {
-      const childAlias = this.alias(child);
+      if ('morph' in child) {
+        const assoc = this.morphAssociation(hydraBuilder, model.name, child);
+        const morphed = this.hydrateMorph(
+          hydraBuilder,
+          assoc,
+          alias,
+          child,
+          rows,
+          scope,
+          newParents,
+        );
+        if (morphed !== undefined) {
+          const policy = this.emptyPolicy(hydraBuilder, assoc, child);
+          this.assign(result, child.morph, morphed ? [morphed] : [], false, policy);
+        }
+        continue;
+      }
 
-      const hasKeys = rows.some((r) => Object.keys(r).some((k) => k.startsWith(`${childAlias}.`)));
-      if (!hasKeys) continue;
+      const childAlias = this.alias(child);
+      const trace = scope.trace?.entry(newParents, childAlias);
+      if (child.json === undefined && !index.hasAlias(childAlias)) {
+        if (trace) trace.skipped++;
+        continue;
+      }
 
       const assocKey = (child.alias as string) || (child.model as string);
       const assoc = hydraBuilder.getAssociation(model.name, assocKey);
       if (!assoc) {
         throw new AssociationNotDeclaredError(model.name, assocKey);
       }
+      if (trace) trace.association = this.describeAssociation(assoc);
 
       const outputKey = typeof child.alias === 'undefined' ? assoc.as : (childAlias as string);
 
-      // BelongsToMany branch
+      if (child.json !== undefined) {
+        const hydrated = this.hydrateJson(
+          hydraBuilder,
+          child,
+          alias,
+          row,
+          newParents,
+          scope,
+          trace,
+        );
+        if (hydrated) {
+          const many = MANY_ASSOCIATIONS.has(assoc.associationType);
+          this.assign(
+            result,
+            outputKey,
+            hydrated,
+            many,
+            this.emptyPolicy(hydraBuilder, assoc, child),
+          );
+        } else if (trace) {
+          trace.skipped++;
+        }
+        continue;
+      }
+
+      // BelongsToMany branch
       if (assoc.associationType === 'BelongsToMany') {
         if (!assoc.through?.model) {
           throw new BelongsToManyThroughModelMissingError(model.name, child.model as string);
         }
 
-        const parentSourceKey = (assoc.sourceKey || assoc.source.primaryKey) as string;
-        const childTargetKey = (assoc.targetKey || assoc.target.primaryKey) as string;
+        const parentSourceKey = assoc.sourceKey || assoc.source.primaryKey;
+        const childTargetKey = assoc.targetKey || assoc.target.primaryKey;
 
         // parent's PK value from its flat alias
-        const parentPkValue = row[`${alias}.${parentSourceKey}`];
+        const parentPkValue = index.key(alias, parentSourceKey)(row);
+
+        // join alias comes from association (authoritative)
+        const joinAlias = assoc.through.alias ?? assoc.through.model.name;
+
+        // inferred key names when not provided
+        const joinToParentFK =
+          assoc.through.foreignKey || assoc.source.name + hydraBuilder.defaultForeignKeySuffix;
+
+        const joinToChildFK =
+          assoc.through.otherKey || assoc.target.name + hydraBuilder.defaultForeignKeySuffix;
+
+        const readJoinParent = index.key(joinAlias, joinToParentFK);
+        const readJoinChild = index.key(joinAlias, joinToChildFK);
+        const candidates = this.matchedRows(
+          child.match ?? hydraBuilder.childMatching,
+          assoc,
+          rows,
+          scope,
+          [alias, parentSourceKey],
+          [joinAlias, joinToParentFK],
+          [childAlias, childTargetKey],
+        );
+
+        // keep only rows that belong to this parent via the join's FK,
+        // have a non-null child PK, and (if present) a matching join.otherKey
+        const readChild = index.key(childAlias, childTargetKey);
+        const grouped = this.groupBy(candidates, readChild, (r, childPk) => {
+          const joinOther = readJoinChild(r);
+          const dropped: HydraTraceDropReason | undefined =
+            childPk == null
+              ? 'null-primary-key' // exclude "null child" rows
+              : readJoinParent(r) !== parentPkValue || (joinOther != null && joinOther !== childPk)
+                ? 'join-key-mismatch'
+                : undefined;
+          if (dropped) HydrationTrace.drop(trace, dropped);
+          return !dropped;
+        });
+        if (trace) {
+          trace.rows += candidates.length;
+          trace.groups += grouped.size;
+        }
+
+        this.assign(
+          result,
+          outputKey,
+          this.hydrateGroups(hydraBuilder, child, grouped, scope, newParents),
+          true,
+          this.emptyPolicy(hydraBuilder, assoc, child),
+        );
+        continue;
+      }
+
+      // Direct associations (HasMany, HasOne, BelongsTo, MorphMany)
+      const morph = assoc.associationType === 'MorphMany' ? assoc.morph : undefined;
+      const typeColumn = morph && `${childAlias}.${morph.typeKey}`;
+      const [parentKey, childKey] = this.matchKeys(assoc, assoc.targetKey);
+      const candidates = this.matchedRows(
+        child.match ?? hydraBuilder.childMatching,
+        assoc,
+        rows,
+        scope,
+        [alias, parentKey],
+        [childAlias, childKey],
+        [childAlias, assoc.target.primaryKey],
+      );
+      const grouped = this.groupRowsByPK(
+        candidates,
+        assoc.target,
+        childAlias,
+        index,
+        typeColumn ? (r) => r[typeColumn] === morph.typeValue : undefined,
+        trace,
+      );
+      const hydratedChildren = this.hydrateGroups(hydraBuilder, child, grouped, scope, newParents);
+
+      this.assign(
+        result,
+        outputKey,
+        hydratedChildren,
+        assoc.associationType === 'HasMany' || !!morph,
+        this.emptyPolicy(hydraBuilder, assoc, child),
+      );
+    }
+
+    attach?.(result, newParents);
+
+    // Build a strict parents record (drop undefined entries)
+    const parentsStrict = Object.fromEntries(
+      Object.entries(newParents).filter(([, v]) => v != null),
+    ) as Record<string, Record<string, any>>;
+
+    const processedResult = node.postProcess
+      ? node.postProcess(result as TModels[M] & Record<string, any>, parentsStrict)
+      : result;
+    if (scope.trace) {
+      const { keys } = scope.trace.entry(parentsIn, alias);
+      for (const key of Object.keys(processedResult ?? {})) {
+        if (!keys.includes(key)) keys.push(key);
+      }
+    }
+    return processedResult;
+  }
+
+  /**
+   * Hydrates a child stored as JSON on the parent row: its objects become rows prefixed with the
+   * child's alias and go through the regular grouping. `undefined` when the column is absent.
+   */
+  private static hydrateJson<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    node: HydrationSchemaNode<TModels>,
+    parentAlias: string,
+    row: FlatRow,
+    parents: ParentRecords,
+    parentScope: HydrationScope,
+    trace?: HydraTraceEntry,
+  ): Record<string, any>[] | undefined {
+    const prefixed = `${parentAlias}.${node.json}`;
+    const column = prefixed in row ? prefixed : node.json!;
+    if (!(column in row)) return undefined;
+
+    const raw = row[column];
+    const value = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    if (value == null) return [];
+    const model = hydraBuilder.getModel(node.model, { noThrow: true });
+    if (!model) throw new NodeModelNotFoundError(String(node.model));
+
+    const alias = this.alias(node);
+    // `json_agg` over a LEFT JOIN without a match yields `[null]`
+    const elements = (Array.isArray(value) ? value : [value]).filter(
+      (element: unknown): element is Record<string, unknown> => element != null,
+    );
+    if (!elements.length) return [];
+    const rows = elements.map(
+      (element): FlatRow =>
+        Object.fromEntries(Object.entries(element).map(([k, v]) => [`${alias}.${k}`, v])),
+    );
+    const index = ColumnIndex.of(rows);
+    const groups = this.groupRowsByPK(rows, model, alias, index, undefined, trace);
+    const scope = new HydrationScope(index, rows, parentScope.trace);
+    return this.hydrateGroups(hydraBuilder, node, groups, scope, parents);
+  }
+
+  /** Compares every row of an entity with the first one, which its attributes are read from. */
+  private static checkConflicts<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    model: IHydraBaseModel,
+    alias: string,
+    rows: FlatRow[],
+    index: ColumnIndex,
+  ): void {
+    const sparse = hydraBuilder.sparseRows;
+    for (const [attribute, column] of index.attributes(model, alias)) {
+      const [first, ...others] = sparse ? rows.filter((row) => column in row) : rows;
+      const other = first && others.find((row) => !sameValue(row[column], first[column]));
+      if (!other) continue;
+      const primaryKey = index.key(alias, model.primaryKey)(first);
+      const values: [unknown, unknown] = [first[column], other[column]];
+      if (hydraBuilder.conflicts === 'throw') {
+        throw new ConflictingValuesError(alias, primaryKey, attribute, values);
+      }
+      hydraBuilder.options.onConflict?.({ alias, primaryKey, attribute, values });
+    }
+  }
+
+  /** Hydrates a `morphTo` child using the target picked by the parent row's discriminator. */
+  private static hydrateMorph<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    assoc: HydraAssociation,
+    alias: string,
+    node: HydrationMorphNode<TModels>,
+    rows: FlatRow[],
+    scope: HydrationScope,
+    parents: ParentRecords,
+  ): Record<string, any> | null | undefined {
+    const { index } = scope;
+    const typeValue = rows[0]?.[`${alias}.${assoc.morph!.typeKey}`];
+    if (typeValue == null) return null;
+
+    const targetNode = this.morphTargetNode(assoc, node, typeValue);
+    const targetAlias = this.alias(targetNode);
+    const trace = scope.trace?.entry(parents, targetAlias);
+    // target columns not selected: not loaded
+    if (!index.hasAlias(targetAlias)) {
+      if (trace) trace.skipped++;
+      return undefined;
+    }
+    const target = assoc.morph!.targets![typeValue]!;
+    if (trace) trace.association = this.describeAssociation(assoc, target.model.name);
+
+    const [parentKey, childKey] = this.matchKeys(assoc, target.targetKey);
+    const candidates = this.matchedRows(
+      node.match ?? hydraBuilder.childMatching,
+      assoc,
+      rows,
+      scope,
+      [alias, parentKey],
+      [targetAlias, childKey],
+      [targetAlias, target.model.primaryKey],
+    );
+    const grouped = this.groupRowsByPK(
+      candidates,
+      target.model,
+      targetAlias,
+      index,
+      undefined,
+      trace,
+    );
+    return this.hydrateGroups(hydraBuilder, targetNode, grouped, scope, parents)[0] ?? null;
+  }
+
+  /** `target` names the model a morph branch resolved to (`assoc.target` is the first one). */
+  private static describeAssociation(
+    assoc: HydraAssociation,
+    target = assoc.target.name,
+  ): NonNullable<HydraTraceEntry['association']> {
+    return { type: assoc.associationType, source: assoc.source.name, as: assoc.as, target };
+  }
+
+  /** `[parent key, child key]` an association joins on; `targetKey` of the (morph) target. */
+  private static matchKeys(assoc: HydraAssociation, targetKey: HydraKey): [HydraKey, HydraKey] {
+    const foreignKey = assoc.foreignKey ?? assoc.target.primaryKey;
+    return assoc.associationType === 'BelongsTo' || assoc.associationType === 'MorphTo'
+      ? [foreignKey, targetKey]
+      : [assoc.sourceKey, foreignKey];
+  }
+
+  /**
+   * Rows to read a child from. `rows` mode trusts the join and returns the parent's rows; key
+   * matching looks the child up among all rows of the scope by the parent's key value and, in
+   * `strict` mode, rejects joined children (identified by `present`) that point elsewhere.
+   */
+  private static matchedRows(
+    matching: HydraChildMatching,
+    assoc: HydraAssociation,
+    rows: FlatRow[],
+    scope: HydrationScope,
+    [parentAlias, parentKey]: [string, HydraKey],
+    [childAlias, childKey]: [string, HydraKey],
+    [presentAlias, presentKey]: [string, HydraKey],
+  ): FlatRow[] {
+    if (matching === 'rows') return rows;
+    const { index } = scope;
+    const parentValue = index.key(parentAlias, parentKey)(rows[0]!);
+    if (matching === 'strict') {
+      const readChild = index.key(childAlias, childKey);
+      const readPresent = index.key(presentAlias, presentKey);
+      for (const row of rows) {
+        if (readPresent(row) == null) continue;
+        const childValue = readChild(row);
+        if (childValue !== parentValue) {
+          throw new AssociationKeyMismatchError(
+            assoc.source.name,
+            assoc.as,
+            parentValue,
+            childValue,
+          );
+        }
+      }
+    }
+    return parentValue == null ? [] : scope.rowsByKey(childAlias, childKey, parentValue);
+  }
+
+  /** Node policy, then the association's, then the modeler-wide default. */
+  static emptyPolicy<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    assoc: HydraAssociation,
+    node: { empty?: HydraEmptyAssociation } | undefined,
+  ): HydraEmptyAssociation | undefined {
+    return node?.empty ?? assoc.empty ?? hydraBuilder.emptyAssociations;
+  }
+
+  /** Sets a hydrated association on `result`, applying the empty-association policy. */
+  private static assign(
+    result: Record<string, any>,
+    key: string,
+    hydrated: Record<string, any>[],
+    many: boolean,
+    policy: HydraEmptyAssociation | undefined,
+  ): void {
+    if (many) {
+      if (hydrated.length || policy !== 'omit') result[key] = hydrated;
+    } else if (hydrated[0]) {
+      result[key] = hydrated[0];
+    } else if (policy === 'empty') {
+      result[key] = null;
+    }
+  }
+
+  static resolveAssociation<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    parentModelName: string,
+    child: HydrationSchemaNode<TModels>,
+  ): HydraAssociation {
+    const assocKey = (child.alias as string) || (child.model as string);
+    const assoc = hydraBuilder.getAssociation(parentModelName, assocKey);
+    if (!assoc) throw new AssociationNotDeclaredError(parentModelName, assocKey);
+    if (assoc.associationType === 'BelongsToMany' && !assoc.through?.model) {
+      throw new BelongsToManyThroughModelMissingError(parentModelName, child.model as string);
+    }
+    return assoc;
+  }
+  static morphAssociation<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    modelName: string,
+    node: HydrationMorphNode<TModels>,
+  ): HydraAssociation {
+    const assoc = hydraBuilder.getAssociation(modelName, node.morph);
+    if (!assoc || assoc.associationType !== 'MorphTo' || !assoc.morph?.targets) {
+      throw new AssociationNotDeclaredError(modelName, node.morph);
+    }
+    return assoc;
+  }
+
+  /** Schema node used for one morph target: the override from `node.targets` or the default. */
+  static morphTargetNode<TModels extends Record<string, any>>(
+    assoc: HydraAssociation,
+    node: HydrationMorphNode<TModels>,
+    typeValue: unknown,
+  ): HydrationSchemaNode<TModels> {
+    const target = assoc.morph?.targets?.[String(typeValue)];
+    if (!target) throw new MorphTargetNotDeclaredError(assoc.source.name, assoc.as, typeValue);
+    return (node.targets?.[String(typeValue)] ?? {
+      model: target.model.name,
+      alias: target.alias,
+    }) as HydrationSchemaNode<TModels>;
+  }
+
+  /** Hydrates every PK group of a node, as a forest when the node is `recursive`. */
+  private static hydrateGroups<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    node: HydrationSchemaNode<TModels>,
+    groups: Map<unknown, FlatRow[]>,
+    scope: HydrationScope,
+    parents: ParentRecords,
+  ): Record<string, any>[] {
+    if (node.recursive) return this.hydrateTree(hydraBuilder, node, groups, scope, parents);
+    return this.sort(
+      node,
+      Array.from(groups.values()).map((group) =>
+        this.hydrateModelRecursive(hydraBuilder, node, group, scope, parents),
+      ),
+    );
+  }
+
+  private static sort<TModels extends Record<string, any>>(
+    node: HydrationSchemaNode<TModels>,
+    hydrated: Record<string, any>[],
+  ): Record<string, any>[] {
+    return node.orderBy ? hydrated.sort(orderComparator(node.orderBy as HydraOrderBy)) : hydrated;
+  }
+
+  /**
+   * Links the PK groups of a single model through its self-association `recursive.via`.
+   * HasMany/HasOne build a tree downwards from entities without a (present) parent;
+   * BelongsTo builds chains upwards from entities nobody references.
+   */
+  private static hydrateTree<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    node: HydrationSchemaNode<TModels>,
+    groups: Map<unknown, FlatRow[]>,
+    scope: HydrationScope,
+    parents: ParentRecords,
+  ): Record<string, any>[] {
+    const { via, maxDepth = Infinity } = node.recursive!;
+    const model = hydraBuilder.getModel(node.model, { noThrow: true });
+    if (!model) throw new NodeModelNotFoundError(String(node.model));
+    const assoc = hydraBuilder.getAssociation(model.name, via);
+    if (!assoc) throw new AssociationNotDeclaredError(model.name, via);
+    if (
+      assoc.target.name !== model.name ||
+      !['HasMany', 'HasOne', 'BelongsTo'].includes(assoc.associationType)
+    ) {
+      throw new InvalidRecursiveAssociationError(model.name, via);
+    }
+
+    const alias = this.alias(node);
+    const upwards = assoc.associationType === 'BelongsTo';
+    const foreignKey = assoc.foreignKey ?? model.primaryKey;
+    // every entity points at most at one other entity: `ref` -> the entity whose `id` matches
+    const idKey = upwards ? assoc.targetKey : assoc.sourceKey;
+    const readId = scope.index.key(alias, idKey);
+    const readRef = scope.index.key(alias, foreignKey);
+    const entities = Array.from(groups, ([pk, rows]) => ({
+      pk,
+      rows,
+      id: readId(rows[0]!),
+      ref: readRef(rows[0]!),
+    }));
+    type Entity = (typeof entities)[number];
+
+    const byId = new Map<unknown, Entity>();
+    const byRef = new Map<unknown, Entity[]>();
+    for (const entity of entities) {
+      if (entity.id != null) byId.set(entity.id, entity);
+      if (entity.ref == null) continue;
+      const bucket = byRef.get(entity.ref) ?? [];
+      bucket.push(entity);
+      byRef.set(entity.ref, bucket);
+    }
+
+    // cycle detection on the pointer graph; `acyclic` memoizes finished chains
+    const acyclic = new Set<Entity>();
+    for (const entity of entities) {
+      const path = new Set<Entity>();
+      let current: Entity | undefined = entity;
+      while (current && !acyclic.has(current)) {
+        if (path.has(current)) throw new RecursiveCycleError(alias, current.pk);
+        path.add(current);
+        current = current.ref == null ? undefined : byId.get(current.ref);
+      }
+      for (const visited of path) acyclic.add(visited);
+    }
+
+    const linked = (entity: Entity): Entity[] => {
+      if (upwards) {
+        const next = entity.ref == null ? undefined : byId.get(entity.ref);
+        return next ? [next] : [];
+      }
+      return entity.id == null ? [] : (byRef.get(entity.id) ?? []);
+    };
+
+    const build = (entity: Entity, depth: number, parentsIn: ParentRecords): Record<string, any> =>
+      this.hydrateModelRecursive(
+        hydraBuilder,
+        node,
+        entity.rows,
+        scope,
+        parentsIn,
+        (result, newParents) => {
+          if (depth >= maxDepth) return;
+          const next = this.sort(
+            node,
+            linked(entity).map((e) => build(e, depth + 1, newParents)),
+          );
+          const many = assoc.associationType === 'HasMany';
+          this.assign(
+            result,
+            assoc.as,
+            next,
+            many,
+            this.emptyPolicy(hydraBuilder, assoc, undefined),
+          );
+        },
+      );
+
+    const roots = upwards
+      ? entities.filter((e) => e.id == null || !byRef.has(e.id))
+      : entities.filter((e) => e.ref == null || !byId.has(e.ref));
+    return this.sort(
+      node,
+      roots.map((root) => build(root, 1, parents)),
+    );
+  }
+
+  // --- Check all schema aliases are present in flatRows ---
+
+  private static checkAllSchemaAliasesPresent<TModels extends Record<string, any>>(
+    schema: HydrationSchemaNode<TModels>,
+    index: ColumnIndex,
+  ): void {
+    const colPrefixes = index.prefixes;
+    for (const node of this.selectedNodes(schema)) {
+      const a = this.alias(node);
+      if (!colPrefixes.has(a)) {
+        throw new SchemaAliasMissingError(a, node.model, Array.from(colPrefixes));
+      }
+    }
+  }
+
+  /** Schema nodes whose prefixed columns the rows must carry. */
+  private static selectedNodes<TModels extends Record<string, any>>(
+    schema: HydrationSchemaNode<TModels>,
+  ): HydrationSchemaNode<TModels>[] {
+    const nodes: HydrationSchemaNode<TModels>[] = [];
+    const visit = (node: HydrationSchemaNode<TModels> | HydrationMorphNode<TModels>): void => {
+      if ('morph' in node) {
+        // only explicit per-target nodes are known without the association
+        for (const target of Object.values(node.targets ?? {})) visit(target);
+        return;
+      }
+      nodes.push(node);
+      for (const child of node.children ?? []) {
+        // JSON children are read from a column of this node, not from prefixed columns
+        if (!('json' in child) || child.json === undefined) visit(child);
+      }
+    };
+
+    visit(schema);
+    return nodes;
+  }
+}
+
+// ------------ Flattener (inverse of Hydrator) -------------
+
+class Flattener {
+  static flatten<TModels extends Record<string, any>>(
+    objects: Record<string, any>[],
+    hydraBuilder: HydraModeler<TModels>,
+    schema: HydrationSchemaNode<TModels, Extract<keyof TModels, string> & string>,
+  ): Record<string, any>[] {
+    const rootModel = hydraBuilder.getModel(schema.model, {
+      noThrow: true,
+    });
+    if (!rootModel) throw new SchemaModelNotFoundError(schema.model);
+
+    return objects.flatMap((obj) => this.flattenNode(hydraBuilder, schema as any, obj, {}));
+  }
+
+  /**
+   * Emits the rows a LEFT JOIN over `node` would produce for `obj`: own columns combined with the
+   * cartesian product of every child's rows. `inherited` holds foreign key values set by the parent.
+   */
+  private static flattenNode<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    node: HydrationSchemaNode<TModels>,
+    obj: Record<string, any>,
+    inherited: Record<string, any>,
+  ): Record<string, any>[] {
+    const model = hydraBuilder.getModel(node.model, { noThrow: true });
+    if (!model) throw new NodeModelNotFoundError(String(node.model));
+
+    const alias = Hydrator.alias(node);
+    const own: Record<string, any> = {};
+    for (const attr of Object.keys(model.attributes)) {
+      own[`${alias}.${attr}`] = obj[attr] ?? inherited[attr] ?? null;
+    }
+
+    let rows: Record<string, any>[] = [own];
+    for (const child of node.children ?? []) {
+      if ('morph' in child) {
+        const childRows = this.flattenMorph(hydraBuilder, model, alias, own, child, obj);
+        rows = rows.flatMap((r) => childRows.map((c) => ({ ...r, ...c })));
+        continue;
+      }
+
+      const assoc = Hydrator.resolveAssociation(hydraBuilder, model.name, child);
+      const outputKey = typeof child.alias === 'undefined' ? assoc.as : Hydrator.alias(child);
+      const value = obj[outputKey];
+      const items: Record<string, any>[] =
+        value == null ? [] : Array.isArray(value) ? value : [value];
+
+      if (child.json !== undefined) {
+        // merged into every row with the other own columns
+        own[`${alias}.${child.json}`] = this.jsonValue(
+          hydraBuilder,
+          model,
+          alias,
+          own,
+          child,
+          obj,
+          items,
+        );
+        continue;
+      }
+
+      const childRows: Record<string, any>[] = [];
+      for (const item of items) {
+        if (assoc.associationType === 'BelongsTo') {
+          // the foreign key lives on the parent row
+          this.fillKey(own, alias, model, assoc.foreignKey, this.pick(item, assoc.targetKey));
+          childRows.push(...this.flattenNode(hydraBuilder, child, item, {}));
+        } else if (assoc.associationType === 'BelongsToMany') {
+          const through = assoc.through!;
+          const joinAlias = through.alias ?? through.model.name;
+          const join: Record<string, any> = {};
+          for (const attr of Object.keys(through.model.attributes)) {
+            join[`${joinAlias}.${attr}`] = null;
+          }
+          this.fillKey(
+            join,
+            joinAlias,
+            through.model,
+            through.foreignKey,
+            this.pick(obj, assoc.sourceKey),
+          );
+          this.fillKey(
+            join,
+            joinAlias,
+            through.model,
+            through.otherKey,
+            this.pick(item, assoc.targetKey),
+          );
+          const joinRaw = this.toRaw(through.model, joinAlias, join);
+          for (const r of this.flattenNode(hydraBuilder, child, item, {})) {
+            childRows.push({ ...joinRaw, ...r });
+          }
+        } else {
+          // HasOne / HasMany / MorphMany: the foreign key lives on the child row
+          childRows.push(
+            ...this.flattenNode(hydraBuilder, child, item, this.childKeys(assoc, obj)),
+          );
+        }
+      }
+      if (!childRows.length) {
+        childRows.push(this.nullColumns(hydraBuilder, model.name, child));
+      }
+
+      rows = rows.flatMap((r) => childRows.map((c) => ({ ...r, ...c })));
+    }
+
+    const linked = node.recursive ? this.flattenTree(hydraBuilder, node, model, own, obj) : [];
+    const ownRaw = this.toRaw(model, alias, own);
+    return [...rows.map((r) => ({ ...r, ...ownRaw })), ...linked];
+  }
+
+  /** Rows of the entities nested under `recursive.via`, as a recursive CTE would return them. */
+  private static flattenTree<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    node: HydrationSchemaNode<TModels>,
+    model: IHydrationModelWithAssociations,
+    own: Record<string, any>,
+    obj: Record<string, any>,
+  ): Record<string, any>[] {
+    const { via } = node.recursive!;
+    const assoc = hydraBuilder.getAssociation(model.name, via);
+    if (!assoc) throw new AssociationNotDeclaredError(model.name, via);
+    if (
+      assoc.target.name !== model.name ||
+      !['HasMany', 'HasOne', 'BelongsTo'].includes(assoc.associationType)
+    ) {
+      throw new InvalidRecursiveAssociationError(model.name, via);
+    }
+
+    const value = obj[assoc.as];
+    const items: Record<string, any>[] =
+      value == null ? [] : Array.isArray(value) ? value : [value];
+    return items.flatMap((item) => {
+      if (assoc.associationType !== 'BelongsTo') {
+        return this.flattenNode(hydraBuilder, node, item, this.childKeys(assoc, obj));
+      }
+      this.fillKey(
+        own,
+        Hydrator.alias(node),
+        model,
+        assoc.foreignKey,
+        this.pick(item, assoc.targetKey),
+      );
+      return this.flattenNode(hydraBuilder, node, item, {});
+    });
+  }
+
+  /** Foreign key (and morph type) values a `hasOne` / `hasMany` / `morphMany` child inherits. */
+  private static childKeys(assoc: HydraAssociation, obj: Record<string, any>): Record<string, any> {
+    const fill = Object.fromEntries(
+      keyColumns(assoc.foreignKey ?? []).map((fk, i) => [fk, this.pick(obj, assoc.sourceKey)[i]]),
+    );
+    if (assoc.morph?.typeValue !== undefined) fill[assoc.morph.typeKey] = assoc.morph.typeValue;
+    return fill;
+  }
+
+  /**
+   * Value of a JSON child's column: its items as objects keyed by attribute (JSON grandchildren
+   * nested under their `json` name), an array for collections, else an object or `null`.
+   */
+  private static jsonValue<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    model: IHydrationModelWithAssociations,
+    alias: string,
+    own: Record<string, any>,
+    node: HydrationSchemaNode<TModels>,
+    obj: Record<string, any>,
+    items: Record<string, any>[],
+  ): unknown {
+    const assoc = Hydrator.resolveAssociation(hydraBuilder, model.name, node);
+    const prefix = `${Hydrator.alias(node)}.`;
+    const elements = items.map((item) => {
+      if (assoc.associationType === 'BelongsTo') {
+        this.fillKey(own, alias, model, assoc.foreignKey, this.pick(item, assoc.targetKey));
+      }
+      const fill =
+        assoc.associationType === 'BelongsTo' || assoc.associationType === 'BelongsToMany'
+          ? {}
+          : this.childKeys(assoc, obj);
+      const [row = {}] = this.flattenNode(hydraBuilder, node, item, fill);
+      return Object.fromEntries(
+        Object.entries(row)
+          .filter(([key]) => key.startsWith(prefix))
+          .map(([key, value]) => [key.slice(prefix.length), value]),
+      );
+    });
+    return MANY_ASSOCIATIONS.has(assoc.associationType) ? elements : (elements[0] ?? null);
+  }
+
+  /** Applies the attributes' `to` converters to the columns of one alias. */
+  private static toRaw(
+    model: IHydraBaseModel,
+    alias: string,
+    row: Record<string, any>,
+  ): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [
+        key,
+        toRawValue(model.attributes[key.slice(alias.length + 1)], value),
+      ]),
+    );
+  }
+
+  /**
+   * Rows of a `morphTo` child: the item goes to the target selected by the parent's discriminator,
+   * every other target's columns stay null.
+   */
+  private static flattenMorph<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    model: IHydrationModelWithAssociations,
+    alias: string,
+    own: Record<string, any>,
+    node: HydrationMorphNode<TModels>,
+    obj: Record<string, any>,
+  ): Record<string, any>[] {
+    const assoc = Hydrator.morphAssociation(hydraBuilder, model.name, node);
+    const empty = this.nullColumns(hydraBuilder, model.name, node);
+    const item = obj[node.morph];
+    if (item == null) return [empty];
+
+    const typeValue = obj[assoc.morph!.typeKey];
+    const targetNode = Hydrator.morphTargetNode(assoc, node, typeValue);
+    const target = assoc.morph!.targets![String(typeValue)]!;
+    this.fillKey(own, alias, model, assoc.foreignKey, this.pick(item, target.targetKey));
+    return this.flattenNode(hydraBuilder, targetNode, item, {}).map((r) => ({ ...empty, ...r }));
+  }
+
+  /** All columns of a child subtree set to null (no matching row on the LEFT JOIN). */
+  private static nullColumns<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    parentModelName: string,
+    node: HydrationSchemaNode<TModels> | HydrationMorphNode<TModels>,
+  ): Record<string, any> {
+    if ('morph' in node) {
+      const morphAssoc = Hydrator.morphAssociation(hydraBuilder, parentModelName, node);
+      const columns: Record<string, any> = {};
+      for (const typeValue of Object.keys(morphAssoc.morph!.targets!)) {
+        const targetNode = Hydrator.morphTargetNode(morphAssoc, node, typeValue);
+        Object.assign(columns, this.subtreeNullColumns(hydraBuilder, targetNode));
+      }
+      return columns;
+    }
+
+    const assoc = Hydrator.resolveAssociation(hydraBuilder, parentModelName, node);
+    const columns: Record<string, any> = {};
+    if (assoc.associationType === 'BelongsToMany') {
+      const joinAlias = assoc.through!.alias ?? assoc.through!.model.name;
+      for (const attr of Object.keys(assoc.through!.model.attributes)) {
+        columns[`${joinAlias}.${attr}`] = null;
+      }
+    }
+    return { ...columns, ...this.subtreeNullColumns(hydraBuilder, node) };
+  }
+
+  private static subtreeNullColumns<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    node: HydrationSchemaNode<TModels>,
+  ): Record<string, any> {
+    const model = hydraBuilder.getModel(node.model, { noThrow: true });
+    if (!model) throw new NodeModelNotFoundError(String(node.model));
+
+    const alias = Hydrator.alias(node);
+    const columns: Record<string, any> = {};
+    for (const attr of Object.keys(model.attributes)) columns[`${alias}.${attr}`] = null;
+    for (const child of node.children ?? []) {
+      if (!('json' in child) || child.json === undefined) {
+        Object.assign(columns, this.nullColumns(hydraBuilder, model.name, child));
+      } else {
+        columns[`${alias}.${child.json}`] = null;
+      }
+    }
+    return columns;
+  }
+
+  private static pick(obj: Record<string, any>, key: HydraKey): any[] {
+    return keyColumns(key).map((k) => obj[k] ?? null);
+  }
+
+  /** Sets a (possibly composite) key on a flat row, keeping values that are already present. */
+  private static fillKey(
+    row: Record<string, any>,
+    alias: string,
+    model: IHydraBaseModel,
+    key: HydraKey | undefined,
+    values: any[],
+  ): void {
+    keyColumns(key ?? []).forEach((column, i) => {
+      const flatKey = `${alias}.${column}`;
+      if (column in model.attributes && row[flatKey] == null) row[flatKey] = values[i] ?? null;
+    });
+  }
+}
+
+// ------------ SQL generation (columns, joins, select) -------------
+
+export type HydraDialect = 'postgres' | 'mysql' | 'mssql' | 'sqlite' | 'oracle';
+
+/** `S` quoted as an identifier of dialect `D` (escaping of quote characters is not reflected). */
+export type HydraQuoted<D extends HydraDialect, S extends string> = D extends 'mysql'
+  ? `\`${S}\``
+  : D extends 'mssql'
+    ? `[${S}]`
+    : `"${S}"`;
+
+const utf8Length = (text: string): number => {
+  let bytes = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+  }
+  return bytes;
+};
+
+const charLength = (text: string): number => Array.from(text).length;
+
+/**
+ * Quote characters and identifier limits for names and column aliases, in the unit the database
+ * counts: UTF-8 bytes (postgres, oracle), characters (mysql) or UTF-16 code units (mssql).
+ */
+const DIALECTS: Record<
+  HydraDialect,
+  {
+    open: string;
+    close: string;
+    maxIdentifier: number;
+    maxAlias: number;
+    length: (text: string) => number;
+  }
+> = {
+  postgres: { open: '"', close: '"', maxIdentifier: 63, maxAlias: 63, length: utf8Length },
+  mysql: { open: '`', close: '`', maxIdentifier: 64, maxAlias: 256, length: charLength },
+  mssql: { open: '[', close: ']', maxIdentifier: 128, maxAlias: 128, length: (t) => t.length },
+  sqlite: {
+    open: '"',
+    close: '"',
+    maxIdentifier: Infinity,
+    maxAlias: Infinity,
+    length: charLength,
+  },
+  oracle: { open: '"', close: '"', maxIdentifier: 128, maxAlias: 128, length: utf8Length },
+};
+
+/**
+ * Identifier quoting for one dialect; with `limits`, names over the dialect's limit throw instead
+ * of truncating.
+ */
+class SqlQuoter {
+  private readonly spec: (typeof DIALECTS)[HydraDialect];
+
+  constructor(
+    private readonly dialect: HydraDialect,
+    private readonly limits = true,
+  ) {
+    this.spec = DIALECTS[dialect];
+  }
+
+  identifier(name: string, maxLength = this.spec.maxIdentifier): string {
+    if (this.limits && this.spec.length(name) > maxLength) {
+      throw new IdentifierTooLongError(name, this.dialect, maxLength);
+    }
+    const { open, close } = this.spec;
+    return `${open}${name.split(close).join(close + close)}${close}`;
+  }
+
+  column(alias: string, column: string): string {
+    return `${this.identifier(alias)}.${this.identifier(column)}`;
+  }
+
+  /** `"table"."column" as "alias"` */
+  selection(alias: string, column: string, as: string): string {
+    return `${this.column(alias, column)} as ${this.identifier(as, this.spec.maxAlias)}`;
+  }
+
+  table(table: string, alias: string): string {
+    return table === alias
+      ? this.identifier(table)
+      : `${this.identifier(table)} AS ${this.identifier(alias)}`;
+  }
+
+  join(join: HydraJoin): string {
+    const conditions = [
+      ...join.on.map(([left, right]) => `${this.ref(left)} = ${this.ref(right)}`),
+      ...join.discriminators.map(
+        ({ column, value }) => `${this.ref(column)} = ${quoteLiteral(value)}`,
+      ),
+    ];
+    return `LEFT JOIN ${this.table(join.table, join.alias)} ON ${conditions.join(' AND ')}`;
+  }
+
+  ref({ alias, column }: HydraColumnRef): string {
+    return this.column(alias, column);
+  }
+}
+
+const quoteLiteral = (value: unknown): string => `'${String(value).replace(/'/g, "''")}'`;
+
+/** A column of one aliased table in a query plan. */
+export interface HydraColumnRef {
+  alias: string;
+  column: string;
+}
+
+/** One `LEFT JOIN` of a query plan. */
+export interface HydraJoin {
+  table: string;
+  alias: string;
+  /** Column pairs compared with `=`: a column of the joined table and the column it references. */
+  on: [HydraColumnRef, HydraColumnRef][];
+  /** Morph discriminator constraints (`column = 'value'`). */
+  discriminators: { column: HydraColumnRef; value: string }[];
+}
+
+/** Dialect-independent description of the query a schema needs; see `queryPlan()`. */
+export interface HydraQueryPlan {
+  from: { table: string; alias: string };
+  /** Every attribute of every node (through tables included) with its flat column name. */
+  selections: (HydraColumnRef & { as: string })[];
+  /** `LEFT JOIN`s in schema order; recursive nodes are not followed (use a recursive CTE). */
+  joins: HydraJoin[];
+  /** Primary keys of every node, root first: rows come grouped and ready for `hydrateStream`. */
+  orderBy: HydraColumnRef[];
+}
+
+/** Database column of an attribute: the `field` of its definition (as in Sequelize) or its name. */
+const columnOf = (model: IHydraBaseModel, attribute: string): string => {
+  const field = (model.attributes[attribute] as { field?: unknown } | null | undefined)?.field;
+  return typeof field === 'string' && field ? field : attribute;
+};
+
+class QueryPlanner {
+  static plan<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    schema: HydrationSchemaNode<TModels>,
+  ): HydraQueryPlan {
+    const rootModel = hydraBuilder.getModel(schema.model, { noThrow: true });
+    if (!rootModel) throw new SchemaModelNotFoundError(schema.model);
+
+    const plan: HydraQueryPlan = {
+      from: { table: rootModel.name, alias: Hydrator.alias(schema) },
+      selections: [],
+      joins: [],
+      orderBy: [],
+    };
+    this.visit(hydraBuilder, schema, plan);
+    return plan;
+  }
+
+  /** Adds the node's columns and primary key, then each child's joins and subtree. */
+  private static visit<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    node: HydrationSchemaNode<TModels>,
+    plan: HydraQueryPlan,
+  ): void {
+    const model = hydraBuilder.getModel(node.model, { noThrow: true });
+    if (!model) throw new NodeModelNotFoundError(String(node.model));
+    const alias = Hydrator.alias(node);
+
+    this.select(hydraBuilder, model, alias, plan);
+    plan.orderBy.push(
+      ...keyColumns(model.primaryKey).map((attr) => ({ alias, column: columnOf(model, attr) })),
+    );
+
+    for (const child of node.children ?? []) {
+      if ('morph' in child) {
+        const assoc = Hydrator.morphAssociation(hydraBuilder, model.name, child);
+        for (const [typeValue, target] of Object.entries(assoc.morph!.targets!)) {
+          const targetNode = Hydrator.morphTargetNode(assoc, child, typeValue);
+          const targetAlias = Hydrator.alias(targetNode);
+          plan.joins.push({
+            table: target.model.name,
+            alias: targetAlias,
+            on: this.on(
+              [target.model, targetAlias, target.targetKey],
+              [model, alias, assoc.foreignKey!],
+            ),
+            discriminators: [
+              {
+                column: { alias, column: columnOf(model, assoc.morph!.typeKey) },
+                value: typeValue,
+              },
+            ],
+          });
+          this.visit(hydraBuilder, targetNode, plan);
+        }
+        continue;
+      }
+      // a JSON child is one more column of its parent, no join
+      if (child.json !== undefined) {
+        const as = hydraBuilder.columnNaming.format(alias, child.json);
+        plan.selections.push({ alias, column: child.json, as });
+        continue;
+      }
+
+      const assoc = Hydrator.resolveAssociation(hydraBuilder, model.name, child);
+      const childAlias = Hydrator.alias(child);
+      const foreignKey = assoc.foreignKey ?? assoc.target.primaryKey;
+      const table = assoc.target.name;
+
+      if (assoc.associationType === 'BelongsToMany') {
+        const through = assoc.through!;
+        const joinAlias = through.alias ?? through.model.name;
+        this.select(hydraBuilder, through.model, joinAlias, plan);
+        plan.joins.push(
+          {
+            table: through.model.name,
+            alias: joinAlias,
+            on: this.on(
+              [through.model, joinAlias, through.foreignKey],
+              [model, alias, assoc.sourceKey],
+            ),
+            discriminators: [],
+          },
+          {
+            table,
+            alias: childAlias,
+            on: this.on(
+              [assoc.target, childAlias, assoc.targetKey],
+              [through.model, joinAlias, through.otherKey],
+            ),
+            discriminators: [],
+          },
+        );
+      } else if (assoc.associationType === 'BelongsTo') {
+        const on = this.on([assoc.target, childAlias, assoc.targetKey], [model, alias, foreignKey]);
+        plan.joins.push({ table, alias: childAlias, on, discriminators: [] });
+      } else {
+        // HasOne / HasMany / MorphMany: the foreign key lives on the child
+        const on = this.on([assoc.target, childAlias, foreignKey], [model, alias, assoc.sourceKey]);
+        const discriminators =
+          assoc.morph?.typeValue !== undefined
+            ? [
+                {
+                  column: {
+                    alias: childAlias,
+                    column: columnOf(assoc.target, assoc.morph.typeKey),
+                  },
+                  value: assoc.morph.typeValue,
+                },
+              ]
+            : [];
+        plan.joins.push({ table, alias: childAlias, on, discriminators });
+      }
+      this.visit(hydraBuilder, child, plan);
+    }
+  }
+
+  private static select<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    model: IHydraBaseModel,
+    alias: string,
+    plan: HydraQueryPlan,
+  ): void {
+    const naming = hydraBuilder.columnNaming;
+    for (const attr of Object.keys(model.attributes)) {
+      plan.selections.push({
+        alias,
+        column: columnOf(model, attr),
+        as: naming.format(alias, attr),
+      });
+    }
+  }
+
+  /** Column-by-column pairs of two (possibly composite) keys, each of a model under an alias. */
+  private static on(
+    [leftModel, leftAlias, left]: [IHydraBaseModel, string, HydraKey],
+    [rightModel, rightAlias, right]: [IHydraBaseModel, string, HydraKey],
+  ): [HydraColumnRef, HydraColumnRef][] {
+    const rightColumns = keyColumns(right);
+    return keyColumns(left).map((attr, i) => [
+      { alias: leftAlias, column: columnOf(leftModel, attr) },
+      { alias: rightAlias, column: columnOf(rightModel, rightColumns[i]!) },
+    ]);
+  }
+}
+
+// ------------ Schema validation ------------
+
+/** A problem found by `validateSchema`: the error `hydrate` would throw, and where. */
+export interface HydraSchemaProblem {
+  /** Output path of the schema node, e.g. `Customer.Products`. */
+  path: string;
+  error: Error;
+}
+
+export interface HydraSchemaValidationOptions {
+  /** Flat column names of the query (in the configured naming) to check aliases and JSON columns against. */
+  columns?: readonly string[];
+}
+
+/** The query's columns: alias prefixes and canonical `alias.attribute` (or unprefixed) names. */
+interface SelectedColumns {
+  prefixes: Set<string>;
+  columns: Set<string>;
+}
+
+class SchemaValidator {
+  static validate<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    schema: HydrationSchemaNode<TModels>,
+    options: HydraSchemaValidationOptions,
+  ): HydraSchemaProblem[] {
+    const problems: HydraSchemaProblem[] = [];
+    let selected: SelectedColumns | undefined;
+    if (options.columns) {
+      const parsed = options.columns.map((c) => [c, hydraBuilder.columnNaming.parse(c)] as const);
+      selected = {
+        prefixes: new Set(parsed.flatMap(([, p]) => p?.alias ?? [])),
+        columns: new Set(parsed.map(([c, p]) => (p ? `${p.alias}.${p.attribute}` : c))),
+      };
+    }
+    this.node(hydraBuilder, schema, undefined, Hydrator.alias(schema), selected, problems);
+    return problems;
+  }
+
+  /** Runs `check`, recording what it throws under `path`. */
+  private static attempt<T>(problems: HydraSchemaProblem[], path: string, check: () => T) {
+    try {
+      return check();
+    } catch (error) {
+      problems.push({ path, error: error instanceof Error ? error : new Error(String(error)) });
+      return undefined;
+    }
+  }
+
+  private static node<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    node: HydrationSchemaNode<TModels>,
+    parent: IHydrationModelWithAssociations | undefined,
+    path: string,
+    selected: SelectedColumns | undefined,
+    problems: HydraSchemaProblem[],
+    morphTarget = false,
+  ): void {
+    const model = hydraBuilder.getModel(node.model, { noThrow: true });
+    if (!model) {
+      const modelName = String(node.model);
+      const error = parent
+        ? new NodeModelNotFoundError(modelName)
+        : new SchemaModelNotFoundError(modelName);
+      problems.push({ path, error });
+      return;
+    }
+    // morph targets come from the morph association itself
+    if (parent && !morphTarget) {
+      this.attempt(problems, path, () =>
+        Hydrator.resolveAssociation(hydraBuilder, parent.name, node),
+      );
+    }
+    const alias = Hydrator.alias(node);
+    if (selected && !selected.prefixes.has(alias)) {
+      problems.push({
+        path,
+        error: new SchemaAliasMissingError(alias, node.model, Array.from(selected.prefixes)),
+      });
+    }
+
+    const keys = new Set(Object.keys(model.attributes));
+    const claim = (key: string) => {
+      if (keys.has(key)) problems.push({ path, error: new OutputKeyConflictError(path, key) });
+      keys.add(key);
+    };
+
+    if (node.recursive) {
+      const { via } = node.recursive;
+      const assoc = model.associations.get(via);
+      if (!assoc) {
+        problems.push({ path, error: new AssociationNotDeclaredError(model.name, via) });
+      } else if (
+        assoc.target.name !== model.name ||
+        !['HasMany', 'HasOne', 'BelongsTo'].includes(assoc.associationType)
+      ) {
+        problems.push({ path, error: new InvalidRecursiveAssociationError(model.name, via) });
+      } else {
+        claim(assoc.as);
+      }
+    }
+
+    for (const child of node.children ?? []) {
+      if ('morph' in child) {
+        const childPath = `${path}.${child.morph}`;
+        claim(child.morph);
+        const assoc = this.attempt(problems, childPath, () =>
+          Hydrator.morphAssociation(hydraBuilder, model.name, child),
+        );
+        for (const typeValue of Object.keys(assoc?.morph?.targets ?? {})) {
+          const target = Hydrator.morphTargetNode(assoc!, child, typeValue);
+          const targetPath = `${childPath}.${Hydrator.alias(target)}`;
+          this.node(hydraBuilder, target, model, targetPath, selected, problems, true);
+        }
+        continue;
+      }
+      const childAlias = Hydrator.alias(child);
+      const childPath = `${path}.${childAlias}`;
+      claim(childAlias);
+      if (child.json === undefined) {
+        this.node(hydraBuilder, child, model, childPath, selected, problems);
+        continue;
+      }
+      // JSON children carry their own columns: only the JSON column is looked up
+      const { json } = child;
+      if (selected && !selected.columns.has(`${alias}.${json}`) && !selected.columns.has(json)) {
+        problems.push({ path: childPath, error: new JsonColumnMissingError(alias, json) });
+      }
+      this.node(hydraBuilder, child, model, childPath, undefined, problems);
+    }
+  }
+}
+
+// ------------ JSON Schema ------------
+
+/** A JSON Schema (draft 2020-12) object; valid as an OpenAPI 3.1 schema too. */
+export type HydraJsonSchema = Record<string, any>;
+
+/** Schemas to merge into an OpenAPI document's `components`. */
+export interface HydraOpenApiComponents {
+  schemas: Record<string, HydraJsonSchema>;
+}
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+const JSON_SCHEMA_TYPES = new Set(['string', 'number', 'integer', 'boolean', 'object', 'array']);
+
+const CONVERTER_JSON_SCHEMAS = new Map<unknown, HydraJsonSchema>([
+  [HydraConverters.date, { type: 'string', format: 'date-time' }],
+  [HydraConverters.bigint, { type: 'integer', format: 'int64' }],
+  [HydraConverters.decimal, { type: 'number' }],
+  [HydraConverters.boolean, { type: 'boolean' }],
+  [HydraConverters.json, {}],
+]);
+
+// keyed by Sequelize `DataTypes` key
+const SEQUELIZE_JSON_SCHEMAS: Record<string, HydraJsonSchema> = {
+  ...Object.fromEntries(
+    ['STRING', 'TEXT', 'CHAR', 'CITEXT', 'UUID', 'ENUM'].map((k) => [k, { type: 'string' }]),
+  ),
+  ...Object.fromEntries(
+    ['INTEGER', 'SMALLINT', 'TINYINT', 'MEDIUMINT', 'BIGINT'].map((k) => [k, { type: 'integer' }]),
+  ),
+  ...Object.fromEntries(['FLOAT', 'REAL', 'DOUBLE', 'DECIMAL'].map((k) => [k, { type: 'number' }])),
+  BOOLEAN: { type: 'boolean' },
+  DATE: { type: 'string', format: 'date-time' },
+  DATEONLY: { type: 'string', format: 'date' },
+  TIME: { type: 'string', format: 'time' },
+  JSON: {},
+  JSONB: {},
+};
+
+/**
+ * Schema of an attribute from its definition: an explicit `jsonSchema`, a built-in converter, a
+ * JSON Schema `type` name or a Sequelize data type. Typed columns are nullable unless they belong
+ * to the primary key or declare `allowNull: false`; undeclared types accept any value.
+ */
+const attributeJsonSchema = (definition: unknown, primaryKey: boolean): HydraJsonSchema => {
+  const declared = (definition ?? {}) as {
+    jsonSchema?: HydraJsonSchema;
+    type?: unknown;
+    allowNull?: boolean;
+  };
+  if (declared.jsonSchema) return declared.jsonSchema;
+  const type = declared.type as { key?: unknown } | string | undefined;
+  const schema =
+    CONVERTER_JSON_SCHEMAS.get(definition) ??
+    (typeof type === 'string'
+      ? JSON_SCHEMA_TYPES.has(type)
+        ? { type }
+        : undefined
+      : SEQUELIZE_JSON_SCHEMAS[String(type?.key)]);
+  if (!schema?.type) return { ...schema };
+  return primaryKey || declared.allowNull === false
+    ? { ...schema }
+    : { ...schema, type: [schema.type, 'null'] };
+};
+
+class JsonSchemaBuilder {
+  /**
+   * One object schema per schema node, named by its output path (`Customer.Products`), and the
+   * array schema of the result referencing the root. `postProcess` additions are not described.
+   */
+  static build<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    schema: HydrationSchemaNode<TModels>,
+    refPrefix: string,
+  ): { result: HydraJsonSchema; definitions: Record<string, HydraJsonSchema> } {
+    if (!hydraBuilder.getModel(schema.model, { noThrow: true })) {
+      throw new SchemaModelNotFoundError(schema.model);
+    }
+    const definitions: Record<string, HydraJsonSchema> = {};
+    const items = this.node(hydraBuilder, schema, Hydrator.alias(schema), refPrefix, definitions);
+    return { result: { type: 'array', items }, definitions };
+  }
+
+  private static node<TModels extends Record<string, any>>(
+    hydraBuilder: HydraModeler<TModels>,
+    node: HydrationSchemaNode<TModels>,
+    name: string,
+    refPrefix: string,
+    definitions: Record<string, HydraJsonSchema>,
+  ): HydraJsonSchema {
+    const model = hydraBuilder.getModel(node.model, { noThrow: true });
+    if (!model) throw new NodeModelNotFoundError(String(node.model));
+    const ref = { $ref: `${refPrefix}${name}` };
+
+    const primaryKey = new Set(keyColumns(model.primaryKey));
+    const properties: Record<string, HydraJsonSchema> = {};
+    const required: string[] = [];
+    for (const [attr, definition] of Object.entries(model.attributes)) {
+      properties[attr] = attributeJsonSchema(definition, primaryKey.has(attr));
+      required.push(attr);
+    }
+    // registered before the children so recursive references resolve
+    definitions[name] = { type: 'object', properties, required };
+
+    const describe = (key: string, schema: HydraJsonSchema, many: boolean, empty?: string) => {
+      if (many) {
+        properties[key] = { type: 'array', items: schema };
+        if (empty !== 'omit') required.push(key);
+      } else {
+        properties[key] = { anyOf: [schema, { type: 'null' }] };
+        if (empty === 'empty') required.push(key);
+      }
+    };
+
+    if (node.recursive) {
+      const assoc = hydraBuilder.getAssociation(model.name, node.recursive.via);
+      if (!assoc) throw new AssociationNotDeclaredError(model.name, node.recursive.via);
+      const many = assoc.associationType === 'HasMany';
+      // the last level hydrated under `maxDepth` has no `via` key
+      const policy =
+        node.recursive.maxDepth === undefined
+          ? Hydrator.emptyPolicy(hydraBuilder, assoc, undefined)
+          : 'omit';
+      describe(assoc.as, ref, many, policy);
+    }
+
+    for (const child of node.children ?? []) {
+      if ('morph' in child) {
+        const assoc = Hydrator.morphAssociation(hydraBuilder, model.name, child);
+        const targets = Object.keys(assoc.morph!.targets!).map((typeValue) => {
+          const targetNode = Hydrator.morphTargetNode(assoc, child, typeValue);
+          const path = `${name}.${child.morph}.${Hydrator.alias(targetNode)}`;
+          return this.node(hydraBuilder, targetNode, path, refPrefix, definitions);
+        });
+        const policy = Hydrator.emptyPolicy(hydraBuilder, assoc, child);
+        describe(
+          child.morph,
+          targets.length === 1 ? targets[0]! : { anyOf: targets },
+          false,
+          policy,
+        );
+        continue;
+      }
+      const assoc = Hydrator.resolveAssociation(hydraBuilder, model.name, child);
+      const key = Hydrator.alias(child);
+      const items = this.node(hydraBuilder, child, `${name}.${key}`, refPrefix, definitions);
+      const many = MANY_ASSOCIATIONS.has(assoc.associationType);
+      describe(key, items, many, Hydrator.emptyPolicy(hydraBuilder, assoc, child));
+    }
+    return ref;
+  }
+}
+
+// ------------ Schema importers ------------
+
+/** Exports of a Drizzle schema module: tables and `relations()` results (anything else is ignored). */
+export type DrizzleSchemaLike = Record<string, unknown>;
+
+/** A column of `information_schema.columns` (or any introspection source shaped alike). */
+export interface HydraIntrospectionColumn {
+  table_name: string;
+  column_name: string;
+  ordinal_position?: number;
+}
+
+/** A column of a primary-key or foreign-key constraint (`information_schema.key_column_usage`). */
+export interface HydraIntrospectionKeyColumn extends HydraIntrospectionColumn {
+  constraint_name: string;
+}
+
+export interface HydraIntrospectionForeignKey extends HydraIntrospectionKeyColumn {
+  referenced_table_name: string;
+  referenced_column_name: string;
+}
+
+/** Introspected tables; key columns of one constraint are ordered by `ordinal_position`. */
+export interface HydraIntrospection {
+  columns: HydraIntrospectionColumn[];
+  primaryKeys?: HydraIntrospectionKeyColumn[];
+  foreignKeys?: HydraIntrospectionForeignKey[];
+}
 
-        // join alias comes from association (authoritative)
-        const joinAlias = assoc.through.alias ?? assoc.through.model.name;
+export interface HydraIntrospectionOptions extends HydraModelerOptions {
+  /**
+   * Declare a `belongsTo` on the referencing table and a `hasMany` on the referenced table for
+   * every foreign key (default `true`). They are named after the other table, or after the
+   * constraint when that name is taken.
+   */
+  associations?: boolean;
+}
 
-        // inferred key names when not provided
-        const joinToParentFK =
-          assoc.through.foreignKey || assoc.source.name + hydraBuilder.defaultForeignKeySuffix;
+const DRIZZLE_COLUMNS = Symbol.for('drizzle:Columns');
+const DRIZZLE_EXTRA_COLUMNS = Symbol.for('drizzle:ExtraConfigColumns');
+const DRIZZLE_EXTRA_BUILDER = Symbol.for('drizzle:ExtraConfigBuilder');
+const DRIZZLE_ENTITY_KIND = Symbol.for('drizzle:entityKind');
 
-        const joinToChildFK =
-          assoc.through.otherKey || assoc.target.name + hydraBuilder.defaultForeignKeySuffix;
+interface DrizzleRelation {
+  kind: 'one' | 'many';
+  target: object;
+  config?: { fields?: object[]; references?: object[]; relationName?: string };
+}
 
-        // keep only rows that belong to this parent via the join's FK,
-        // have a non-null child PK, and (if present) a matching join.otherKey
-        const relevantRows = rows.filter((r) => {
-          const parentMatch = r[`${joinAlias}.${joinToParentFK}`] === parentPkValue;
-          if (!parentMatch) return false;
+const singleOrComposite = (columns: string[]): HydraKey | undefined =>
+  columns.length > 1 ? columns : columns[0];
 
-          const childPk = r[`${childAlias}.${childTargetKey}`];
-          if (childPk == null) return false; // exclude "null child" rows
+const byPosition = (a: HydraIntrospectionColumn, b: HydraIntrospectionColumn) =>
+  (a.ordinal_position ?? 0) - (b.ordinal_position ?? 0);
 
-          const joinOther = r[`${joinAlias}.${joinToChildFK}`];
-          return joinOther == null || joinOther === childPk;
-        });
+class SchemaImporter {
+  /**
+   * Tables become models named after their export, columns become attributes (with `field` when
+   * the database name differs) and relations become associations named after the relation.
+   */
+  static drizzle(modeler: HydraModeler<any>, schema: DrizzleSchemaLike): void {
+    const tables = new Map<object, string>();
+    const relations = new Map<object, Record<string, DrizzleRelation>>();
+    const properties = new Map<object, string>(); // column object -> attribute
+
+    for (const [name, value] of Object.entries(schema)) {
+      if (value && typeof value === 'object' && DRIZZLE_COLUMNS in value) {
+        tables.set(value, name);
+      }
+    }
 
-        const grouped = new Map<string, Record<string, any>[]>();
-        for (const r of relevantRows) {
-          const childPkVal = r[`${childAlias}.${childTargetKey}`] as string;
-          const bucket = grouped.get(childPkVal);
-          if (bucket) bucket.push(r);
-          else grouped.set(childPkVal, [r]);
+    modeler.addModels((mb) => {
+      for (const [table, name] of tables) {
+        const columns = (table as any)[DRIZZLE_COLUMNS] as Record<string, { name: string }>;
+        const attributes: Record<string, any> = {};
+        const primaryKey: string[] = [];
+        for (const [attr, column] of Object.entries(columns)) {
+          properties.set(column, attr);
+          attributes[attr] = column.name === attr ? {} : { field: column.name };
+          if ((column as { primary?: boolean }).primary) primaryKey.push(attr);
         }
-
-        (result as any)[outputKey] = Array.from(grouped.values()).map((group) =>
-          this.hydrateModelRecursive(hydraBuilder, child, group, newParents),
-        );
-        continue;
+        if (!primaryKey.length) primaryKey.push(...this.drizzleCompositeKey(table));
+        mb.add(name, attributes, singleOrComposite(primaryKey));
       }
+    });
 
-      // Direct associations (HasMany, HasOne, BelongsTo)
-      const grouped = this.groupRowsByPK(rows, assoc.target, childAlias);
+    for (const value of Object.values(schema)) {
+      const { table, config } = (value ?? {}) as { table?: object; config?: unknown };
+      if (!table || !tables.has(table) || typeof config !== 'function') continue;
+      const relation =
+        (kind: DrizzleRelation['kind']) => (target: object, cfg?: DrizzleRelation['config']) => ({
+          kind,
+          target,
+          ...(cfg ? { config: cfg } : {}),
+          withFieldName() {
+            return this;
+          },
+        });
+      relations.set(table, config({ one: relation('one'), many: relation('many') }));
+    }
 
-      if (assoc.associationType === 'HasMany') {
-        (result as any)[outputKey] = Array.from(grouped.values()).map((group) =>
-          this.hydrateModelRecursive(hydraBuilder, child, group, newParents),
-        );
-      } else {
-        const firstGroup = Array.from(grouped.values())[0];
-        if (firstGroup) {
-          (result as any)[outputKey] = this.hydrateModelRecursive(
-            hydraBuilder,
-            child,
-            firstGroup,
-            newParents,
+    const attributesOf = (columns: object[] | undefined) =>
+      singleOrComposite((columns ?? []).map((column) => properties.get(column)!));
+
+    for (const [table, declared] of relations) {
+      modeler.associate(tables.get(table)!, (ab: HydraAssociationBuilder<any, string>) => {
+        for (const [as, relation] of Object.entries(declared)) {
+          const target = tables.get(relation.target);
+          if (!target) continue;
+          const { fields, references } = relation.config ?? {};
+          if (relation.kind === 'one' && fields) {
+            ab.belongsTo(target, {
+              as,
+              foreignKey: attributesOf(fields)!,
+              targetKey: attributesOf(references)!,
+            });
+            continue;
+          }
+          // the other side of a `one(...)` declared with fields on the target
+          const inverse = Object.values(relations.get(relation.target) ?? {}).find(
+            (other) =>
+              other.kind === 'one' &&
+              other.target === table &&
+              other.config?.fields &&
+              other.config.relationName === relation.config?.relationName,
           );
+          const keys = inverse
+            ? {
+                foreignKey: attributesOf(inverse.config!.fields)!,
+                sourceKey: attributesOf(inverse.config!.references)!,
+              }
+            : {};
+          if (relation.kind === 'one') ab.hasOne(target, { as, ...keys });
+          else ab.hasMany(target, as, keys);
         }
-      }
+      });
     }
-
-    // Build a strict parents record (drop undefined entries)
-    const parentsStrict = Object.fromEntries(
-      Object.entries(newParents).filter(([, v]) => v != null),
-    ) as Record<string, Record<string, any>>;
-
-    const processedResult = node.postProcess
-      ? node.postProcess(result as TModels[M] & Record<string, any>, parentsStrict)
-      : result;
-    return processedResult;
   }
 
-  // --- Check all schema aliases are present in flatRows ---
+  /** Attributes of a `primaryKey({ columns })` declared in the table's extra config. */
+  private static drizzleCompositeKey(table: any): string[] {
+    const extraColumns: Record<string, object> = table[DRIZZLE_EXTRA_COLUMNS] ?? {};
+    const extra = table[DRIZZLE_EXTRA_BUILDER]?.(extraColumns) ?? [];
+    const builder = Object.values(extra).find(
+      // PgPrimaryKeyBuilder, MySqlPrimaryKeyBuilder, SQLitePrimaryKeyBuilder...
+      (b: any) => /PrimaryKeyBuilder$/.test(b?.constructor?.[DRIZZLE_ENTITY_KIND] ?? ''),
+    ) as { columns: object[] } | undefined;
+    const attributes = new Map(Object.entries(extraColumns).map(([attr, col]) => [col, attr]));
+    return (builder?.columns ?? []).flatMap((column) => attributes.get(column) ?? []);
+  }
 
-  private static checkAllSchemaAliasesPresent<TModels extends Record<string, any>>(
-    schema: HydrationSchemaNode<TModels>,
-    flatRows: Record<string, any>[],
+  static introspection(
+    modeler: HydraModeler<any>,
+    introspection: HydraIntrospection,
+    associations: boolean,
   ): void {
-    if (!flatRows.length) return;
+    const group = <T extends HydraIntrospectionColumn>(rows: T[], by: (row: T) => string) => {
+      const groups = new Map<string, T[]>();
+      for (const row of rows) {
+        const key = by(row);
+        const list = groups.get(key);
+        if (list) list.push(row);
+        else groups.set(key, [row]);
+      }
+      for (const list of groups.values()) list.sort(byPosition);
+      return groups;
+    };
+    const columns = group(introspection.columns, (c) => c.table_name);
+    const primaryKeys = group(introspection.primaryKeys ?? [], (c) => c.table_name);
+
+    modeler.addModels((mb) => {
+      for (const [table, list] of columns) {
+        const attributes = Object.fromEntries(list.map((c) => [c.column_name, {}]));
+        const primaryKey = (primaryKeys.get(table) ?? []).map((c) => c.column_name);
+        mb.add(table, attributes, singleOrComposite(primaryKey));
+      }
+    });
+    if (!associations) return;
 
-    const row = flatRows[0];
-    if (!row) return;
-    const colPrefixes = new Set<string>(
-      Object.keys(row)
-        .map((key) => key.split('.')[0])
-        .filter((p): p is string => p !== undefined),
+    const foreignKeys = group(
+      introspection.foreignKeys ?? [],
+      (c) => `${c.table_name}\0${c.constraint_name}`,
     );
-    const checkNode = (node: HydrationSchemaNode<TModels>): void => {
-      const a = this.alias(node);
-      if (!colPrefixes.has(a)) {
-        throw new SchemaAliasMissingError(a, node.model, Array.from(colPrefixes));
-      }
-      for (const child of node.children ?? []) checkNode(child);
+    const declared = new Map<string, Set<string>>();
+    const nameFor = (table: string, preferred: string, constraint: string) => {
+      const taken = declared.get(table) ?? new Set(Object.keys(modeler.getModel(table).attributes));
+      declared.set(table, taken);
+      const as = taken.has(preferred) ? constraint : preferred;
+      taken.add(as);
+      return as;
     };
 
-    checkNode(schema);
+    for (const list of foreignKeys.values()) {
+      const [{ table_name: table, referenced_table_name: referenced, constraint_name: name }] =
+        list as [HydraIntrospectionForeignKey];
+      if (!columns.has(table) || !columns.has(referenced)) continue;
+      const foreignKey = singleOrComposite(list.map((c) => c.column_name))!;
+      const referencedKey = singleOrComposite(list.map((c) => c.referenced_column_name))!;
+
+      modeler.associate(table, (ab: HydraAssociationBuilder<any, string>) =>
+        ab.belongsTo(referenced, {
+          as: nameFor(table, referenced, name),
+          foreignKey,
+          targetKey: referencedKey,
+        }),
+      );
+      modeler.associate(referenced, (ab: HydraAssociationBuilder<any, string>) =>
+        ab.hasMany(table, nameFor(referenced, table, name), {
+          foreignKey,
+          sourceKey: referencedKey,
+        }),
+      );
+    }
   }
 }
 
 // ------------ Main HydraBuilder ------------
 
-interface HydraModelerOptions {
+/** Maps between flat column names and (alias, attribute) pairs. */
+export interface HydraColumnNaming {
+  format(alias: string, attribute: string): string;
+  /** Returns `undefined` for columns that carry no alias prefix. */
+  parse(column: string): { alias: string; attribute: string } | undefined;
+}
+
+const separatorNaming = (separator: string): HydraColumnNaming => ({
+  format: (alias, attribute) => `${alias}${separator}${attribute}`,
+  parse: (column) => {
+    const at = column.indexOf(separator);
+    if (at <= 0) return undefined;
+    return { alias: column.slice(0, at), attribute: column.slice(at + separator.length) };
+  },
+});
+
+// internal flat rows always use `alias.attribute`
+const CANONICAL_SEPARATOR = '.';
+
+export interface HydraModelerOptions {
   defaultPrimaryKey?: string;
   defaultForeignKeySuffix?: string;
+  /** Separator between alias and attribute in flat column names, e.g. `__`. Defaults to `.`. */
+  columnSeparator?: string;
+  /** Full control over flat column names; takes precedence over `columnSeparator`. */
+  columnNaming?: HydraColumnNaming;
+  /** Default for associations and schema nodes that set no `empty` policy of their own. */
+  emptyAssociations?: HydraEmptyAssociation;
+  /** Default for schema nodes that set no `match` of their own. */
+  childMatching?: HydraChildMatching;
+  conflicts?: HydraConflictCheck;
+  /**
+   * Accept rows that omit columns (UNIONs of differently shaped queries, external APIs): aliases
+   * are looked up across all rows, and attributes are read from the first row of an entity that
+   * carries them (left out when none does). `hydrateStream` checks the aliases once the source ends.
+   */
+  sparseRows?: boolean;
+  /** Receives every conflict in `'warn'` mode. */
+  onConflict?: (conflict: HydraValueConflict) => void;
+}
+
+/** The parts of a Sequelize model class read by `HydraModeler.fromSequelize`. */
+export interface SequelizeModelLike {
+  name: string;
+  primaryKeyAttributes?: readonly string[];
+  getAttributes?(): Record<string, any>;
+  rawAttributes?: Record<string, any>;
+  associations?: Record<string, SequelizeAssociationLike>;
+}
+
+/** The parts of a Sequelize association read by `HydraModeler.fromSequelize`. */
+export interface SequelizeAssociationLike {
+  associationType: string;
+  as: string;
+  target: { name: string };
+  foreignKey?: string;
+  sourceKey?: string;
+  targetKey?: string;
+  /** BelongsToMany: column of the through model referencing the target. */
+  otherKey?: string;
+  through?: { model: { name: string } };
+}
+
+export interface HydrateStreamOptions {
+  /**
+   * `true` (default): rows arrive ordered by the root primary key (ascending or descending, as
+   * JavaScript compares the values: strings by code unit, e.g. `COLLATE "C"`) and each root is
+   * emitted as soon as its key changes; only the previous key is kept. `false`: rows are buffered,
+   * so memory grows with the input, and roots are emitted when the source ends.
+   * Recursive roots and roots with `orderBy` are always buffered.
+   */
+  ordered?: boolean;
+}
+
+/** Output of `select(schema)`; `sql` joins the parts into one statement. */
+export interface HydraSelect {
+  /** Aliased selections for every node of the schema, through tables included. */
+  columns: string[];
+  from: string;
+  joins: string[];
+  /** Primary keys of every node, root first: rows come grouped and ready for `hydrateStream`. */
+  orderBy: string[];
+  sql: string;
 }
 
-export class HydraModeler<TModels extends Record<string, any>> {
+/** Typed result of `columns()`: `"alias"."column" as "alias.column"` in the dialect's quoting. */
+export type HydraColumnSelection<
+  D extends HydraDialect,
+  Alias extends string,
+  Prefix extends string,
+> = `${HydraQuoted<D, Alias>}.${HydraQuoted<D, string>} as ${HydraQuoted<D, `${Prefix}${string}`>}`;
+
+export class HydraModeler<
+  TModels extends Record<string, any>,
+  TAssocs extends HydraAssociationRegistry = {},
+  TDialect extends HydraDialect = 'postgres',
+> {
   private _models: Map<keyof TModels, HydraModel<any>> = new Map();
   private _associations: Map<string, Map<string, HydraAssociation>> = new Map();
   private _options: HydraModelerOptions;
+  // set through `withDialect()` only, so that it always matches `TDialect`
+  private _dialect: HydraDialect | undefined;
 
   constructor();
   constructor(options: HydraModelerOptions);
-  constructor(from: HydraModeler<any>);
-  constructor(hydraOrOptions?: HydraModeler<any> | HydraModelerOptions) {
+  constructor(from: HydraModeler<any, any, TDialect>);
+  constructor(hydraOrOptions?: HydraModeler<any, any, any> | HydraModelerOptions) {
     if (hydraOrOptions instanceof HydraModeler) {
       this._options = hydraOrOptions.options;
+      this._dialect = hydraOrOptions._dialect;
       this.cloneFromModeler(hydraOrOptions);
     } else {
       const opts = hydraOrOptions ?? {};
+      if (opts.conflicts === 'warn' && !opts.onConflict) throw new ConflictHandlerMissingError();
       this._options = {
         ...opts,
         defaultForeignKeySuffix: opts.defaultForeignKeySuffix || 'Code',
@@ -494,6 +3047,84 @@ export class HydraModeler<TModels extends Record<string, any>> {
     }
   }
 
+  /**
+   * Builds a modeler from Sequelize models (e.g. `sequelize.models`): attributes (with their
+   * `field` column names), primary keys and BelongsTo / HasOne / HasMany / BelongsToMany
+   * associations. Through models must be part of `models`.
+   */
+  static fromSequelize<TModels extends Record<string, any> = Record<string, any>>(
+    models: Record<string, SequelizeModelLike> | readonly SequelizeModelLike[],
+    options: HydraModelerOptions = {},
+  ): HydraModeler<TModels> {
+    const modeler = new HydraModeler<Record<string, any>>(options);
+    const list = Object.values(models);
+
+    for (const model of list) {
+      const attributes = model.getAttributes?.() ?? model.rawAttributes ?? {};
+      const primaryKey = model.primaryKeyAttributes ?? [];
+      modeler._addModel(model.name, attributes, primaryKey.length > 1 ? primaryKey : primaryKey[0]);
+    }
+
+    for (const model of list) {
+      modeler.associate(model.name, (ab: HydraAssociationBuilder<any, string>) => {
+        for (const assoc of Object.values(model.associations ?? {})) {
+          const keys = {
+            ...(assoc.sourceKey ? { sourceKey: assoc.sourceKey } : {}),
+            ...(assoc.targetKey ? { targetKey: assoc.targetKey } : {}),
+          };
+          const foreignKey = assoc.foreignKey ? { foreignKey: assoc.foreignKey } : {};
+          switch (assoc.associationType) {
+            case 'BelongsTo':
+              ab.belongsTo(assoc.target.name, { as: assoc.as, ...foreignKey, ...keys });
+              break;
+            case 'HasOne':
+              ab.hasOne(assoc.target.name, { as: assoc.as, ...foreignKey, ...keys });
+              break;
+            case 'HasMany':
+              ab.hasMany(assoc.target.name, assoc.as, { ...foreignKey, ...keys });
+              break;
+            case 'BelongsToMany':
+              ab.belongsToMany(assoc.target.name, assoc.through?.model.name ?? '', {
+                as: assoc.as,
+                through: {
+                  ...foreignKey,
+                  ...(assoc.otherKey ? { otherKey: assoc.otherKey } : {}),
+                },
+                ...keys,
+              });
+              break;
+            // Sequelize declares no other association types
+          }
+        }
+      });
+    }
+    return modeler as HydraModeler<any>;
+  }
+
+  /**
+   * Builds a modeler from a Drizzle schema (e.g. `import * as schema`): tables, their columns and
+   * primary keys, and the associations declared with `relations()`.
+   */
+  static fromDrizzle<TModels extends Record<string, any> = Record<string, any>>(
+    schema: DrizzleSchemaLike,
+    options: HydraModelerOptions = {},
+  ): HydraModeler<TModels> {
+    const modeler = new HydraModeler<Record<string, any>>(options);
+    SchemaImporter.drizzle(modeler, schema);
+    return modeler as HydraModeler<any>;
+  }
+
+  /** Builds a modeler from introspected tables, columns, primary keys and foreign keys. */
+  static fromIntrospection<TModels extends Record<string, any> = Record<string, any>>(
+    introspection: HydraIntrospection,
+    options: HydraIntrospectionOptions = {},
+  ): HydraModeler<TModels> {
+    const { associations = true, ...modelerOptions } = options;
+    const modeler = new HydraModeler<Record<string, any>>(modelerOptions);
+    SchemaImporter.introspection(modeler, introspection, associations);
+    return modeler as HydraModeler<any>;
+  }
+
   // --- Utilities ---
   get models(): Map<keyof TModels, HydraModel<any>> {
     return this._models;
@@ -510,6 +3141,82 @@ export class HydraModeler<TModels extends Record<string, any>> {
     return this._options.defaultForeignKeySuffix!;
   }
 
+  get emptyAssociations(): HydraEmptyAssociation | undefined {
+    return this._options.emptyAssociations;
+  }
+
+  /**
+   * Identifier quoting for `columns()`, `joins()` and `select()`: `postgres` unless set with
+   * `withDialect()`, which also enables the dialect's identifier length limits.
+   */
+  get dialect(): TDialect {
+    return (this._dialect ?? 'postgres') as TDialect;
+  }
+
+  private quoter(): SqlQuoter {
+    return new SqlQuoter(this.dialect, this._dialect !== undefined);
+  }
+
+  /** Copy of this modeler quoting identifiers for `dialect`, with `columns()` typed accordingly. */
+  withDialect<D extends HydraDialect>(dialect: D): HydraModeler<TModels, TAssocs, D> {
+    const clone = new HydraModeler<TModels, TAssocs, D>(this as HydraModeler<any, any, any>);
+    clone._dialect = dialect;
+    return clone;
+  }
+
+  get childMatching(): HydraChildMatching {
+    return this._options.childMatching ?? 'rows';
+  }
+
+  get conflicts(): HydraConflictCheck {
+    return this._options.conflicts ?? 'off';
+  }
+
+  get sparseRows(): boolean {
+    return this._options.sparseRows ?? false;
+  }
+
+  get columnNaming(): HydraColumnNaming {
+    return (
+      this._options.columnNaming ??
+      separatorNaming(this._options.columnSeparator ?? CANONICAL_SEPARATOR)
+    );
+  }
+
+  private get usesCanonicalNaming(): boolean {
+    return (
+      !this._options.columnNaming &&
+      (this._options.columnSeparator ?? CANONICAL_SEPARATOR) === CANONICAL_SEPARATOR
+    );
+  }
+
+  /** Renames configured column names to the internal `alias.attribute` form. */
+  private toCanonicalRow(row: Record<string, any>): Record<string, any> {
+    if (this.usesCanonicalNaming) return row;
+    const naming = this.columnNaming;
+    return Object.fromEntries(
+      Object.entries(row).map(([column, value]) => {
+        const parsed = naming.parse(column);
+        return [
+          parsed ? `${parsed.alias}${CANONICAL_SEPARATOR}${parsed.attribute}` : column,
+          value,
+        ];
+      }),
+    );
+  }
+
+  /** Renames internal `alias.attribute` columns to the configured column names. */
+  private fromCanonicalRow(row: Record<string, any>): Record<string, any> {
+    if (this.usesCanonicalNaming) return row;
+    const naming = this.columnNaming;
+    return Object.fromEntries(
+      Object.entries(row).map(([column, value]) => {
+        const at = column.indexOf(CANONICAL_SEPARATOR);
+        return [naming.format(column.slice(0, at), column.slice(at + 1)), value];
+      }),
+    );
+  }
+
   // ensure association map exists
   private ensureAssocMap(modelName: keyof TModels): Map<string, HydraAssociation> {
     const key = String(modelName);
@@ -527,7 +3234,7 @@ export class HydraModeler<TModels extends Record<string, any>> {
       add: <K extends keyof TModels & string>(
         name: K,
         attributes: LooseAttributes<TModels[K]>,
-        primaryKey?: keyof TModels[K],
+        primaryKey?: keyof TModels[K] | readonly (keyof TModels[K])[],
       ) => typeof mb;
     }) => void,
   ): this {
@@ -535,7 +3242,7 @@ export class HydraModeler<TModels extends Record<string, any>> {
       add: <K extends keyof TModels & string>(
         name: K,
         attributes: LooseAttributes<TModels[K]>,
-        primaryKey?: keyof TModels[K],
+        primaryKey?: keyof TModels[K] | readonly (keyof TModels[K])[],
       ) => {
         this._addModel(name, attributes, primaryKey);
         return mb;
@@ -548,55 +3255,51 @@ export class HydraModeler<TModels extends Record<string, any>> {
   private _addModel<K extends keyof TModels & string>(
     name: K,
     attributes: LooseAttributes<TModels[K]>,
-    primaryKey?: keyof TModels[K],
+    primaryKey?: keyof TModels[K] | readonly (keyof TModels[K])[],
   ) {
     if (!this._models.has(name)) {
-      const model = new HydraModel(name, attributes, primaryKey as string);
+      const model = new HydraModel<TModels[K]>(
+        name,
+        attributes,
+        primaryKey ?? this.defaultPrimaryKey,
+      );
       this._models.set(name, model);
       this._associations.set(name as any, new Map());
     }
   }
 
   // --------- Association Management (Kysely-style) ----------
-  associate<SourceName extends Extract<keyof TModels, string>>(
+  /**
+   * Declares associations of `sourceModelName`. Return the builder chain from `builderFn` to have
+   * the declared associations tracked at type level (used to infer `hydrate` results).
+   */
+  associate<
+    SourceName extends Extract<keyof TModels, string>,
+    TAdded extends Record<string, HydraAssociationShape> = {},
+  >(
     sourceModelName: SourceName,
-    builderFn: (ab: {
-      belongsTo: <TargetName extends Extract<keyof TModels, string>>(
-        targetModelName: TargetName,
-        options?: CreateHydraBelongsToAssociation<TModels, SourceName, TargetName>,
-      ) => typeof ab;
-      hasOne: <TargetName extends Extract<keyof TModels, string>>(
-        targetModelName: TargetName,
-        options?: CreateHydraHasOneAssociation<TModels, SourceName, TargetName>,
-      ) => typeof ab;
-      hasMany: <TargetName extends Extract<keyof TModels, string>>(
-        targetModelName: TargetName,
-        alias: string,
-        options?: CreateHydraHasManyAssociation<TModels, SourceName, TargetName>,
-      ) => typeof ab;
-      belongsToMany: <
-        TargetName extends Extract<keyof TModels, string>,
-        ThroughName extends Extract<keyof TModels, string>,
-      >(
-        targetModelName: TargetName,
-        throughModelName: ThroughName,
-        options: CreateHydraBelongsToManyAssociation<TModels, SourceName, TargetName, ThroughName>,
-      ) => typeof ab;
-    }) => void,
-  ) {
+    builderFn: (
+      ab: HydraAssociationBuilder<TModels, SourceName>,
+    ) => HydraAssociationBuilder<TModels, SourceName, TAdded> | void,
+  ): HydraModeler<
+    TModels,
+    Simplify<
+      Omit<TAssocs, SourceName> & Record<SourceName, Simplify<TAssocs[SourceName] & TAdded>>
+    >,
+    TDialect
+  > {
     const associations: HydraAssociation[] = [];
     const ab = {
       belongsTo: <TargetName extends Extract<keyof TModels, string>>(
         targetModelName: TargetName,
         options: CreateHydraBelongsToAssociation<TModels, SourceName, TargetName> = {},
       ) => {
-        const { sourceKey = this.defaultPrimaryKey, targetKey = this.defaultPrimaryKey } = options;
-        const as = options.as ?? targetModelName;
-        const foreignKey =
-          options.foreignKey ?? `${targetModelName}${this.defaultForeignKeySuffix}`;
-
         const source = this.getModel(sourceModelName);
         const target = this.getModel(targetModelName);
+        const { sourceKey = source.primaryKey, targetKey = target.primaryKey } = options;
+        const as = options.as ?? targetModelName;
+        const foreignKey = options.foreignKey ?? this.defaultForeignKey(targetModelName, targetKey);
+
         associations.push({
           as,
           associationType: 'BelongsTo',
@@ -605,6 +3308,7 @@ export class HydraModeler<TModels extends Record<string, any>> {
           sourceKey,
           target,
           targetKey,
+          ...(options.empty ? { empty: options.empty } : {}),
         });
         return ab;
       },
@@ -612,12 +3316,11 @@ export class HydraModeler<TModels extends Record<string, any>> {
         targetModelName: TargetName,
         options: CreateHydraHasOneAssociation<TModels, SourceName, TargetName> = {},
       ) => {
-        const { sourceKey = this.defaultPrimaryKey, targetKey = this.defaultPrimaryKey } = options;
-        const as = options.as ?? targetModelName;
-        const foreignKey =
-          options.foreignKey ?? `${sourceModelName}${this.defaultForeignKeySuffix}`;
         const source = this.getModel(sourceModelName);
         const target = this.getModel(targetModelName);
+        const { sourceKey = source.primaryKey, targetKey = target.primaryKey } = options;
+        const as = options.as ?? targetModelName;
+        const foreignKey = options.foreignKey ?? this.defaultForeignKey(sourceModelName, sourceKey);
 
         associations.push({
           as,
@@ -627,6 +3330,7 @@ export class HydraModeler<TModels extends Record<string, any>> {
           sourceKey,
           target,
           targetKey,
+          ...(options.empty ? { empty: options.empty } : {}),
         });
         return ab;
       },
@@ -635,15 +3339,13 @@ export class HydraModeler<TModels extends Record<string, any>> {
         alias: string,
         options: CreateHydraHasManyAssociation<TModels, SourceName, TargetName> = {},
       ) => {
-        const { sourceKey = this.defaultPrimaryKey, targetKey = this.defaultPrimaryKey } = options;
         if (!alias) {
           throw new HasManyMissingAliasError(sourceModelName as string, targetModelName as string);
         }
-        const foreignKey =
-          options.foreignKey ?? `${sourceModelName}${this.defaultForeignKeySuffix}`;
-
         const source = this.getModel(sourceModelName);
         const target = this.getModel(targetModelName);
+        const { sourceKey = source.primaryKey, targetKey = target.primaryKey } = options;
+        const foreignKey = options.foreignKey ?? this.defaultForeignKey(sourceModelName, sourceKey);
 
         associations.push({
           as: alias,
@@ -653,6 +3355,7 @@ export class HydraModeler<TModels extends Record<string, any>> {
           sourceKey,
           target,
           targetKey,
+          ...(options.empty ? { empty: options.empty } : {}),
         });
         return ab;
       },
@@ -664,15 +3367,15 @@ export class HydraModeler<TModels extends Record<string, any>> {
         throughModelName: ThroughName,
         options: CreateHydraBelongsToManyAssociation<TModels, SourceName, TargetName, ThroughName>,
       ) => {
-        const { sourceKey = this.defaultPrimaryKey, targetKey = this.defaultPrimaryKey } = options;
+        const source = this.getModel(sourceModelName);
+        const target = this.getModel(targetModelName);
+        const { sourceKey = source.primaryKey, targetKey = target.primaryKey } = options;
         const as = options.as ?? targetModelName;
         const foreignKey =
-          options.through?.foreignKey ?? `${sourceModelName}${this.defaultForeignKeySuffix}`;
+          options.through?.foreignKey ?? this.defaultForeignKey(sourceModelName, sourceKey);
         const otherKey =
-          options.through?.otherKey ?? `${targetModelName}${this.defaultForeignKeySuffix}`;
+          options.through?.otherKey ?? this.defaultForeignKey(targetModelName, targetKey);
 
-        const source = this.getModel(sourceModelName);
-        const target = this.getModel(targetModelName);
         const throughModel = this.getModel(throughModelName, {
           noThrow: true,
         });
@@ -704,6 +3407,64 @@ export class HydraModeler<TModels extends Record<string, any>> {
                 foreignKey,
                 otherKey,
               },
+          ...(options.empty ? { empty: options.empty } : {}),
+        });
+        return ab;
+      },
+      morphTo: <TargetName extends Extract<keyof TModels, string>>(
+        as: string,
+        options: CreateHydraMorphToAssociation<TModels, SourceName, TargetName>,
+      ) => {
+        const source = this.getModel(sourceModelName);
+        const targets: Record<string, HydraMorphTarget> = {};
+        for (const [typeValue, declared] of Object.entries(options.targets)) {
+          const { model: targetModelName, ...rest } =
+            typeof declared === 'string' ? { model: declared } : declared;
+          const model = this.getModel(targetModelName);
+          targets[typeValue] = {
+            model,
+            alias: ('alias' in rest && rest.alias) || targetModelName,
+            targetKey: ('targetKey' in rest && rest.targetKey) || model.primaryKey,
+          };
+        }
+        const first = Object.values(targets)[0];
+        if (!first) throw new MorphTargetNotDeclaredError(sourceModelName, as, undefined);
+
+        associations.push({
+          as,
+          associationType: 'MorphTo',
+          foreignKey: options.idKey,
+          source,
+          sourceKey: source.primaryKey,
+          target: first.model,
+          targetKey: first.targetKey,
+          morph: { typeKey: options.typeKey, targets },
+          ...(options.empty ? { empty: options.empty } : {}),
+        });
+        return ab;
+      },
+      morphMany: <TargetName extends Extract<keyof TModels, string>>(
+        targetModelName: TargetName,
+        alias: string,
+        options: CreateHydraMorphManyAssociation<TModels, SourceName, TargetName>,
+      ) => {
+        if (!alias) {
+          throw new HasManyMissingAliasError(sourceModelName as string, targetModelName as string);
+        }
+        const source = this.getModel(sourceModelName);
+        const target = this.getModel(targetModelName);
+        const { sourceKey = source.primaryKey } = options;
+
+        associations.push({
+          as: alias,
+          associationType: 'MorphMany',
+          foreignKey: options.idKey,
+          source,
+          sourceKey,
+          target,
+          targetKey: target.primaryKey,
+          morph: { typeKey: options.typeKey, typeValue: options.typeValue ?? sourceModelName },
+          ...(options.empty ? { empty: options.empty } : {}),
         });
         return ab;
       },
@@ -711,12 +3472,52 @@ export class HydraModeler<TModels extends Record<string, any>> {
     builderFn(ab as any);
 
     for (const association of associations) {
+      this.assertAssociationKeyArity(association);
       const mapModelAssociations = this.ensureAssocMap(sourceModelName);
       if (!mapModelAssociations.has(association.as)) {
         mapModelAssociations.set(association.as, association);
       }
     }
-    return this;
+    return this as any;
+  }
+
+  /**
+   * Default foreign key for a reference to `modelName`: `<Model><Suffix>` for single keys,
+   * `<Model><KeyPart>` per column for composite keys (e.g. `Tenant` + `id` -> `TenantId`).
+   */
+  private defaultForeignKey(modelName: string, referencedKey: HydraKey): HydraKey {
+    if (typeof referencedKey === 'string') return `${modelName}${this.defaultForeignKeySuffix}`;
+    return referencedKey.map((k) => `${modelName}${k.charAt(0).toUpperCase()}${k.slice(1)}`);
+  }
+
+  private assertAssociationKeyArity(association: HydraAssociation): void {
+    const pairs: [HydraKey | undefined, HydraKey][] =
+      association.associationType === 'BelongsToMany' && association.through
+        ? [
+            [association.through.foreignKey, association.sourceKey],
+            [association.through.otherKey, association.targetKey],
+          ]
+        : association.associationType === 'MorphTo'
+          ? Object.values(association.morph?.targets ?? {}).map((t) => [
+              association.foreignKey,
+              t.targetKey,
+            ])
+          : association.associationType === 'BelongsTo'
+            ? [[association.foreignKey, association.targetKey]]
+            : [[association.foreignKey, association.sourceKey]];
+    for (const [referencing, referenced] of pairs) {
+      if (referencing === undefined) continue;
+      const expected = keyColumns(referenced).length;
+      const received = keyColumns(referencing).length;
+      if (expected !== received) {
+        throw new AssociationKeyArityMismatchError(
+          association.source.name,
+          association.as,
+          expected,
+          received,
+        );
+      }
+    }
   }
 
   // --- getModel overloads for better narrowing ---
@@ -735,7 +3536,7 @@ export class HydraModeler<TModels extends Record<string, any>> {
     return {
       name: model.name,
       attributes: model.attributes,
-      primaryKey: model.primaryKey as string,
+      primaryKey: model.primaryKey,
       associations: this.ensureAssocMap(name),
     };
   }
@@ -753,7 +3554,7 @@ export class HydraModeler<TModels extends Record<string, any>> {
   columns<Model extends Extract<keyof TModels, string>>(
     modelName: Model,
     filters?: HydraColumnFilter<TModels[Model]>,
-  ): `"${Model}"."${string}" as "${Model}.${string}"`[];
+  ): HydraColumnSelection<TDialect, Model, Model>[];
   /**
    * Returns an array of aliased column selections for the specified model with SQL alias.
    */
@@ -761,7 +3562,7 @@ export class HydraModeler<TModels extends Record<string, any>> {
     modelName: Model,
     alias: Alias,
     filters?: HydraColumnFilter<TModels[Model]>,
-  ): `"${Model}"."${string}" as "${Alias}.${string}"`[];
+  ): HydraColumnSelection<TDialect, Alias, Alias>[];
   /**
    * Processed column selections using a transformer.
    */
@@ -820,14 +3621,16 @@ export class HydraModeler<TModels extends Record<string, any>> {
           ? keys.filter((k) => !f.exclude.includes(k))
           : keys.filter((k) => f.includes(k));
 
-    const selections = filterKeys(Object.keys(model.attributes), filters).map(
-      (key) => `"${normAlias}"."${key}" as "${normAlias}.${key}"`,
+    const naming = this.columnNaming;
+    const q = this.quoter();
+    const selections = filterKeys(Object.keys(model.attributes), filters).map((key) =>
+      q.selection(normAlias, columnOf(model, key), naming.format(normAlias, key)),
     );
 
     return processor ? selections.map(processor) : selections;
   }
 
-  private cloneFromModeler(source: HydraModeler<any>): void {
+  private cloneFromModeler(source: HydraModeler<any, any, any>): void {
     this._models = new Map();
     this._associations = new Map();
 
@@ -835,7 +3638,7 @@ export class HydraModeler<TModels extends Record<string, any>> {
       const cloned = new HydraModel(
         model.name,
         model.attributes as LooseAttributes<any>,
-        model.primaryKey as string,
+        model.primaryKey,
       );
       this._models.set(name as any, cloned);
       this._associations.set(String(name), new Map());
@@ -851,7 +3654,7 @@ export class HydraModeler<TModels extends Record<string, any>> {
       return {
         name: m.name,
         attributes: m.attributes,
-        primaryKey: m.primaryKey as string,
+        primaryKey: m.primaryKey,
         associations: assocMap,
       };
     };
@@ -871,6 +3674,7 @@ export class HydraModeler<TModels extends Record<string, any>> {
           target: wrap(assoc.target.name),
           targetKey: assoc.targetKey,
           ...(assoc.foreignKey !== undefined ? { foreignKey: assoc.foreignKey } : {}),
+          ...(assoc.empty !== undefined ? { empty: assoc.empty } : {}),
           ...(assoc.through
             ? {
                 through: {
@@ -881,6 +3685,23 @@ export class HydraModeler<TModels extends Record<string, any>> {
                 },
               }
             : {}),
+          ...(assoc.morph
+            ? {
+                morph: {
+                  ...assoc.morph,
+                  ...(assoc.morph.targets
+                    ? {
+                        targets: Object.fromEntries(
+                          Object.entries(assoc.morph.targets).map(([typeValue, t]) => [
+                            typeValue,
+                            { ...t, model: wrap(t.model.name) },
+                          ]),
+                        ),
+                      }
+                    : {}),
+                },
+              }
+            : {}),
         };
 
         clonedMap.set(as, entry);
@@ -891,18 +3712,190 @@ export class HydraModeler<TModels extends Record<string, any>> {
 
   // ---- Hydration API (instance method, type-safe) ----
 
+  hydrate<const S extends HydrationSchemaNode<TModels>>(
+    flatRows: Record<string, any>[],
+    schema: S,
+  ): HydratedNode<TModels, TAssocs, S>[];
   hydrate<
     ReturnType extends Record<string, any> = Record<string, any>,
     T extends TModels = TModels,
-  >(flatRows: Record<string, any>[], schema: HydrationSchemaNode<T>): ReturnType[] {
+  >(flatRows: Record<string, any>[], schema: HydrationSchemaNode<T>): ReturnType[];
+  hydrate(flatRows: Record<string, any>[], schema: HydrationSchemaNode<any>): any[] {
+    if (!this.allObjectsHaveSameProperties(flatRows))
+      throw new AllFlatRowsMustHaveSamePropertiesError();
+    const rows = this.usesCanonicalNaming ? flatRows : flatRows.map((r) => this.toCanonicalRow(r));
+    return Hydrator.hydrate(rows, this as HydraModeler<any>, schema);
+  }
+
+  /**
+   * Hydrates independent roots selected side by side, e.g. `{ customers: schemaA, suppliers:
+   * schemaB }`, sharing one pass over the rows. Throws `OverlappingRootAliasesError` when roots
+   * read the same column prefix.
+   */
+  hydrateMany<const S extends Record<string, HydrationSchemaNode<TModels>>>(
+    flatRows: Record<string, any>[],
+    schemas: S,
+  ): { [K in keyof S]: HydratedNode<TModels, TAssocs, S[K]>[] } {
+    if (!this.allObjectsHaveSameProperties(flatRows))
+      throw new AllFlatRowsMustHaveSamePropertiesError();
+    const rows = this.usesCanonicalNaming ? flatRows : flatRows.map((r) => this.toCanonicalRow(r));
+    return Hydrator.hydrateMany(
+      rows,
+      this as HydraModeler<any>,
+      schemas as Record<string, any>,
+    ) as any;
+  }
+
+  /**
+   * Hydrates rows from an (async) iterable such as a database cursor, yielding each root object
+   * once it is complete. Uses the same schema, aliases and `postProcess` semantics as `hydrate`.
+   */
+  hydrateStream<const S extends HydrationSchemaNode<TModels>>(
+    rows: AsyncIterable<Record<string, any>> | Iterable<Record<string, any>>,
+    schema: S,
+    options?: HydrateStreamOptions,
+  ): AsyncGenerator<HydratedNode<TModels, TAssocs, S>, void, undefined>;
+  hydrateStream<
+    ReturnType extends Record<string, any> = Record<string, any>,
+    T extends TModels = TModels,
+  >(
+    rows: AsyncIterable<Record<string, any>> | Iterable<Record<string, any>>,
+    schema: HydrationSchemaNode<T>,
+    options?: HydrateStreamOptions,
+  ): AsyncGenerator<ReturnType, void, undefined>;
+  hydrateStream(
+    rows: AsyncIterable<Record<string, any>> | Iterable<Record<string, any>>,
+    schema: HydrationSchemaNode<any>,
+    options?: HydrateStreamOptions,
+  ): AsyncGenerator<any, void, undefined> {
+    return Hydrator.hydrateStream(
+      this.usesCanonicalNaming ? rows : this.canonicalStream(rows),
+      this as HydraModeler<any>,
+      schema,
+      options,
+    );
+  }
+
+  private async *canonicalStream(
+    rows: AsyncIterable<Record<string, any>> | Iterable<Record<string, any>>,
+  ): AsyncGenerator<Record<string, any>, void, undefined> {
+    for await (const row of rows) yield this.toCanonicalRow(row);
+  }
+
+  /**
+   * Inverse of `hydrate`: flattens nested objects into `Alias.column` rows (one per LEFT JOIN
+   * combination), filling foreign keys from the declared associations. `postProcess` is not applied.
+   */
+  flatten<T extends TModels = TModels>(
+    objects: Record<string, any>[],
+    schema: HydrationSchemaNode<T>,
+  ): Record<string, any>[] {
+    const rows = Flattener.flatten(objects, this as HydraModeler<any>, schema);
+    return this.usesCanonicalNaming ? rows : rows.map((r) => this.fromCanonicalRow(r));
+  }
+
+  /**
+   * `LEFT JOIN` clauses matching `schema`, built from the declared association keys and aliases,
+   * e.g. `LEFT JOIN "Address" ON "Address"."code" = "Customer"."AddressCode"`.
+   */
+  joins<T extends TModels = TModels>(schema: HydrationSchemaNode<T>): string[];
+  /**
+   * Processed join clauses using a transformer, e.g. `joins(sql.raw, schema)`.
+   */
+  joins<R, T extends TModels = TModels>(
+    processor: (join: string) => R,
+    schema: HydrationSchemaNode<T>,
+  ): R[];
+  joins(...args: any[]): any[] {
+    const [processor, schema] = typeof args[0] === 'function' ? args : [undefined, args[0]];
+    const q = this.quoter();
+    const joins = QueryPlanner.plan(this as HydraModeler<any>, schema).joins.map((j) => q.join(j));
+    return processor ? joins.map(processor) : joins;
+  }
+
+  /**
+   * Complete SELECT for `schema`: the columns of every node (always passing the alias check of
+   * `hydrate`), FROM and JOIN clauses, and an ORDER BY on the primary keys.
+   */
+  select<T extends TModels = TModels>(schema: HydrationSchemaNode<T>): HydraSelect {
+    const plan = this.queryPlan(schema);
+    const q = this.quoter();
+    const columns = plan.selections.map((s) => q.selection(s.alias, s.column, s.as));
+    const from = q.table(plan.from.table, plan.from.alias);
+    const joins = plan.joins.map((j) => q.join(j));
+    const orderBy = plan.orderBy.map((c) => q.ref(c));
+    const sql = [
+      `SELECT ${columns.join(', ')}`,
+      `FROM ${from}`,
+      ...joins,
+      `ORDER BY ${orderBy.join(', ')}`,
+    ].join('\n');
+    return { columns, from, joins, orderBy, sql };
+  }
+
+  /**
+   * Structured form of `select()` (tables, aliases, key pairs and flat column names) for query
+   * builders that compose their own statements.
+   */
+  queryPlan<T extends TModels = TModels>(schema: HydrationSchemaNode<T>): HydraQueryPlan {
+    return QueryPlanner.plan(this as HydraModeler<any>, schema);
+  }
+
+  /**
+   * Hydrates like `hydrate` and reports, per alias path, the rows each node saw, the groups it
+   * formed, the rows it dropped and why, the association it was resolved through and the keys it
+   * wrote.
+   */
+  explain<const S extends HydrationSchemaNode<TModels>>(
+    flatRows: Record<string, any>[],
+    schema: S,
+  ): HydraExplanation<HydratedNode<TModels, TAssocs, S>> {
     if (!this.allObjectsHaveSameProperties(flatRows))
       throw new AllFlatRowsMustHaveSamePropertiesError();
-    return Hydrator.hydrate(flatRows, this as unknown as HydraModeler<T>, schema);
+    const rows = this.usesCanonicalNaming ? flatRows : flatRows.map((r) => this.toCanonicalRow(r));
+    const trace = new HydrationTrace();
+    const result = Hydrator.hydrate(rows, this as HydraModeler<any>, schema, trace);
+    return { result: result as HydratedNode<TModels, TAssocs, S>[], trace: trace.entries };
+  }
+
+  /**
+   * Checks every node of `schema` without rows (model registered, association declared, through
+   * model present, output keys unique, and with `columns` the node aliases) and returns all
+   * problems found; an empty array means the schema is valid.
+   */
+  validateSchema<T extends TModels = TModels>(
+    schema: HydrationSchemaNode<T>,
+    options: HydraSchemaValidationOptions = {},
+  ): HydraSchemaProblem[] {
+    return SchemaValidator.validate(this as HydraModeler<any>, schema, options);
+  }
+
+  /**
+   * JSON Schema (draft 2020-12) of `hydrate(rows, schema)`: an array of the root node, with one
+   * definition in `$defs` per schema node named by its output path.
+   */
+  toJsonSchema<T extends TModels = TModels>(schema: HydrationSchemaNode<T>): HydraJsonSchema {
+    const { result, definitions } = JsonSchemaBuilder.build(
+      this as HydraModeler<any>,
+      schema,
+      '#/$defs/',
+    );
+    return { $schema: JSON_SCHEMA_DIALECT, ...result, $defs: definitions };
+  }
+
+  /** The node schemas of `toJsonSchema()` as OpenAPI 3.1 `components`. */
+  toOpenApi<T extends TModels = TModels>(schema: HydrationSchemaNode<T>): HydraOpenApiComponents {
+    const { definitions } = JsonSchemaBuilder.build(
+      this as HydraModeler<any>,
+      schema,
+      '#/components/schemas/',
+    );
+    return { schemas: definitions };
   }
 
   private allObjectsHaveSameProperties<T extends Record<string, any>>(rows: T[]): boolean {
-    if (rows.length <= 1) return true;
-    const referenceKeys = Object.keys(rows[0]!).sort().join('|');
-    return rows.every((row) => Object.keys(row).sort().join('|') === referenceKeys);
+    if (rows.length <= 1 || this.sparseRows) return true;
+    const index = new ColumnIndex(rows[0]!);
+    return rows.every((row) => index.matches(row));
   }
 }
@@ -0,0 +1,106 @@
+// kysely/index.spec.ts
+import { Kysely, SqliteDialect, type SqliteDatabase } from 'kysely';
+import initSqlJs, { type Database } from 'sql.js';
+
+import { HydraModeler, type HydrationSchemaNode } from '../core/main';
+
+import { executeHydrated, hydraSelect, type KyselyModels, selectHydrated } from './index';
+
+// Minimal SqliteDatabase over sql.js (in-memory, no native bindings)
+const sqlJsDatabase = (db: Database): SqliteDatabase => ({
+  close: () => db.close(),
+  prepare: (query) => {
+    const statement = () => db.prepare(query);
+    const all = (parameters: ReadonlyArray<unknown>) => {
+      const stmt = statement();
+      stmt.bind(parameters as any[]);
+      const rows: unknown[] = [];
+      while (stmt.step()) rows.push(stmt.getAsObject());
+      stmt.free();
+      return rows;
+    };
+    return {
+      reader: /^\s*(select|with)/i.test(query),
+      all,
+      run: (parameters) => {
+        db.run(query, parameters as any[]);
+        return { changes: db.getRowsModified(), lastInsertRowid: 0 };
+      },
+      iterate: (parameters) => all(parameters)[Symbol.iterator](),
+    };
+  },
+});
+
+describe('kysely adapter', () => {
+  interface Database {
+    Customer: { code: string; name: string; AddressCode: string | null };
+    Address: { code: string; street: string };
+    Product: { code: string; name: string; CustomerCode: string };
+  }
+  type Models = KyselyModels<Database>;
+
+  let db: Kysely<Database>;
+  const builder = new HydraModeler<Models>()
+    .addModels((mb) =>
+      mb
+        .add('Customer', { code: {}, name: {}, AddressCode: {} })
+        .add('Address', { code: {}, street: {} })
+        .add('Product', { code: {}, name: {}, CustomerCode: {} }),
+    )
+    .associate('Customer', (ab) => ab.belongsTo('Address').hasMany('Product', 'Products'));
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    const sqlite = new SQL.Database();
+    sqlite.run(`
+      CREATE TABLE Address (code TEXT PRIMARY KEY, street TEXT);
+      CREATE TABLE Customer (code TEXT PRIMARY KEY, name TEXT, AddressCode TEXT);
+      CREATE TABLE Product (code TEXT PRIMARY KEY, name TEXT, CustomerCode TEXT);
+      INSERT INTO Address VALUES ('A1', 'Main Street');
+      INSERT INTO Customer VALUES ('C2', 'Bob', NULL), ('C1', 'Alice', 'A1');
+      INSERT INTO Product VALUES ('P2', 'Pen', 'C1'), ('P1', 'Book', 'C1');
+    `);
+    db = new Kysely<Database>({ dialect: new SqliteDialect({ database: sqlJsDatabase(sqlite) }) });
+  });
+
+  afterEach(() => db.destroy());
+
+  const schema = {
+    model: 'Customer',
+    children: [{ model: 'Address' }, { model: 'Product', alias: 'Products' }],
+  } satisfies HydrationSchemaNode<Models>;
+
+  it('selects, joins and hydrates a schema with typed results', async () => {
+    const customers = await executeHydrated(selectHydrated(db, builder, schema), builder, schema);
+
+    expect(customers).toEqual([
+      {
+        code: 'C1',
+        name: 'Alice',
+        AddressCode: 'A1',
+        Address: { code: 'A1', street: 'Main Street' },
+        Products: [
+          { code: 'P1', name: 'Book', CustomerCode: 'C1' },
+          { code: 'P2', name: 'Pen', CustomerCode: 'C1' },
+        ],
+      },
+      { code: 'C2', name: 'Bob', AddressCode: null, Products: [] },
+    ]);
+    const street: string | undefined = customers[0]!.Address?.street;
+    expect(street).toBe('Main Street');
+  });
+
+  it('extends an existing query builder', async () => {
+    const qb = hydraSelect(
+      db.selectFrom('Customer').where('Customer.code', '=', 'C1'),
+      builder,
+      schema,
+      { orderBy: false },
+    );
+
+    expect(qb.compile().sql).toContain('left join "Product" as "Products"');
+    expect(qb.compile().sql).not.toContain('order by');
+    const [alice] = await executeHydrated(qb, builder, schema);
+    expect(alice?.Products.map((p: { code: string }) => p.code).sort()).toEqual(['P1', 'P2']);
+  });
+});
@@ -0,0 +1,95 @@
+import { sql } from 'kysely';
+import type { Kysely, Selectable, SelectQueryBuilder } from 'kysely';
+
+import type {
+  HydraAssociationRegistry,
+  HydraDialect,
+  HydratedNode,
+  HydraModeler,
+  HydrationSchemaNode,
+} from '../core/main';
+
+// ------------ Kysely adapter ------------
+
+/** Hydra models derived from a Kysely database interface: one model per table, selected row shape. */
+export type KyselyModels<DB> = { [T in Extract<keyof DB, string>]: Selectable<DB[T]> };
+
+export interface HydraKyselyOptions {
+  /** Append an ORDER BY on the primary keys of every node (default `true`). */
+  orderBy?: boolean;
+}
+
+type AnySelectQueryBuilder = SelectQueryBuilder<any, any, any>;
+
+/**
+ * Adds the joins and selections that `schema` needs to `qb`, which must select from the root
+ * model under the root alias. Table and column names are quoted by Kysely's own dialect.
+ */
+export function hydraSelect<
+  QB extends AnySelectQueryBuilder,
+  TModels extends Record<string, any>,
+  TAssocs extends HydraAssociationRegistry,
+  TDialect extends HydraDialect,
+>(
+  qb: QB,
+  modeler: HydraModeler<TModels, TAssocs, TDialect>,
+  schema: HydrationSchemaNode<TModels>,
+  options: HydraKyselyOptions = {},
+): QB {
+  const plan = modeler.queryPlan(schema);
+  let query: AnySelectQueryBuilder = qb;
+
+  for (const join of plan.joins) {
+    query = query.leftJoin(sql.table(join.table).as(join.alias), (jb) => {
+      let on = jb;
+      for (const [left, right] of join.on) {
+        on = on.on(sql.id(left.alias, left.column), '=', sql.id(right.alias, right.column));
+      }
+      for (const { column, value } of join.discriminators) {
+        on = on.on(sql.id(column.alias, column.column), '=', value);
+      }
+      return on;
+    });
+  }
+
+  query = query.select(plan.selections.map((s) => sql.id(s.alias, s.column).as(s.as)));
+
+  if (options.orderBy ?? true) {
+    for (const { alias, column } of plan.orderBy) query = query.orderBy(sql.id(alias, column));
+  }
+  return query as QB;
+}
+
+/** Starts a query for `schema`: `selectFrom` on the root model plus everything `hydraSelect` adds. */
+export function selectHydrated<
+  DB,
+  TModels extends Record<string, any>,
+  TAssocs extends HydraAssociationRegistry,
+  TDialect extends HydraDialect,
+>(
+  db: Kysely<DB>,
+  modeler: HydraModeler<TModels, TAssocs, TDialect>,
+  schema: HydrationSchemaNode<TModels>,
+  options: HydraKyselyOptions = {},
+): SelectQueryBuilder<DB, any, Record<string, unknown>> {
+  const { from } = modeler.queryPlan(schema);
+  const qb: AnySelectQueryBuilder = (db as Kysely<any>).selectFrom(
+    sql.table(from.table).as(from.alias),
+  );
+  return hydraSelect(qb, modeler, schema, options);
+}
+
+/** Executes `qb` (built with `hydraSelect` / `selectHydrated`) and hydrates its rows with `schema`. */
+export async function executeHydrated<
+  TModels extends Record<string, any>,
+  TAssocs extends HydraAssociationRegistry,
+  TDialect extends HydraDialect,
+  const S extends HydrationSchemaNode<TModels>,
+>(
+  qb: AnySelectQueryBuilder,
+  modeler: HydraModeler<TModels, TAssocs, TDialect>,
+  schema: S,
+): Promise<HydratedNode<TModels, TAssocs, S>[]> {
+  const rows: Record<string, any>[] = await qb.execute();
+  return modeler.hydrate(rows, schema);
+}